@@ -0,0 +1,99 @@
+/**
+ * Бенчмарк: подписка на весь state (useForm) против подписки на поле (useField)
+ *
+ * Моделирует демо-форму оплаты: по одному «компоненту» на каждое поле.
+ * - form  — как useForm: любое изменение state ре-рендерит все поля
+ * - field — как useField: ре-рендер только при смене снимка поля
+ *   (ссылка ComputedFieldState, показ ошибки, submitting)
+ *
+ * «Рендер» = вызов getFieldProps, как в компоненте поля.
+ * Сценарий — ввод номера карты по одному символу.
+ *
+ * Запуск (из корня репозитория): npx vitest bench --run app-demo/bench
+ */
+
+import { bench, describe } from "vitest";
+
+import { createForm } from "../../core/createForm";
+import type { FormController } from "../../core/createFormController";
+import { selectFieldSnapshot, type FieldSnapshot } from "../../react/useField";
+import { shallowEqual } from "../../react/useSelector";
+import { paymentFormConfig, paymentFormDefaults } from "../src/config/paymentFormConfig";
+import { validatePassportDates } from "../src/config/passport";
+import type { PaymentFormValues } from "../src/config/types";
+
+type SubscriptionMode = "form" | "field";
+
+const CARD_NUMBER = "4111111111111111";
+
+const { createController } = createForm<PaymentFormValues>({
+  config: paymentFormConfig,
+  defaults: paymentFormDefaults,
+  type: "PaymentBench",
+  validationMode: "onTouched",
+  validate: validatePassportDates,
+});
+
+/**
+ * Подписывает по одному «компоненту» на каждое поле формы
+ */
+function mountFields(controller: FormController<PaymentFormValues>, mode: SubscriptionMode) {
+  const keys = Object.keys(controller.getState().fields);
+  const snapshots = new Map<string, FieldSnapshot>(
+    keys.map((key) => [key, selectFieldSnapshot(controller.getState(), key)])
+  );
+  let renders = 0;
+
+  const unsubscribe = controller.subscribe(() => {
+    const state = controller.getState();
+
+    for (const key of keys) {
+      if (mode === "field") {
+        const next = selectFieldSnapshot(state, key);
+        if (shallowEqual(snapshots.get(key)!, next)) continue;
+        snapshots.set(key, next);
+      }
+
+      (controller.getFieldProps as (key: string) => unknown)(key);
+      renders++;
+    }
+  });
+
+  return { unsubscribe, getRenders: () => renders };
+}
+
+function typeCardNumber(controller: FormController<PaymentFormValues>) {
+  for (let i = 1; i <= CARD_NUMBER.length; i++) {
+    controller.changeField("cardNumber", CARD_NUMBER.slice(0, i));
+  }
+}
+
+/**
+ * Количество «рендеров» полей за один ввод номера карты
+ */
+function countRenders(mode: SubscriptionMode): number {
+  const controller = createController(`count-${mode}`);
+  const { unsubscribe, getRenders } = mountFields(controller, mode);
+
+  typeCardNumber(controller);
+  unsubscribe();
+
+  return getRenders();
+}
+
+describe("payment form: typing card number", () => {
+  console.log(
+    `[Palistor] field renders per card number input — ` +
+    `useForm: ${countRenders("form")}, useField: ${countRenders("field")}`
+  );
+
+  for (const mode of ["form", "field"] as const) {
+    const controller = createController(`bench-${mode}`);
+    mountFields(controller, mode);
+
+    bench(mode === "form" ? "useForm (whole state)" : "useField (single field)", () => {
+      controller.reset();
+      typeCardNumber(controller);
+    });
+  }
+});
@@ -7,7 +7,7 @@ interface CheckboxProps extends Omit<React.ComponentProps<typeof HeroUICheckbox>
 }
 
 export function Checkbox(props: ComputedFieldState & Partial<CheckboxProps>) {
-  const { isVisible, error, value, ...restProps } = props;
+  const { isVisible, error, value, isValidating, errorKey, isDirty, isTouched, ...restProps } = props;
 
   if (!isVisible) {
     return null;
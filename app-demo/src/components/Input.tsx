@@ -6,7 +6,7 @@ interface InputProps extends Omit<React.ComponentProps<typeof HeroUIInput>, keyo
 }
 
 export function Input(props: ComputedFieldState & Partial<InputProps>) {
-  const { isVisible, ...restProps } = props;
+  const { isVisible, isValidating, errorKey, isDirty, isTouched, ...restProps } = props;
 
   if (!isVisible) {
     return null;
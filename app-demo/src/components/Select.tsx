@@ -28,7 +28,7 @@ interface SelectPropsWithChildren extends SelectPropsBase {
 type SelectProps = SelectPropsWithOptions | SelectPropsWithChildren;
 
 export function Select(props: ComputedFieldState & Partial<SelectProps>) {
-  const { isVisible, error, value, options, renderLabel, children, ...restProps } = props;
+  const { isVisible, error, value, isValidating, errorKey, isDirty, isTouched, options, renderLabel, children, ...restProps } = props;
 
   if (!isVisible) {
     return null;
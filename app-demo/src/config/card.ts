@@ -13,6 +13,8 @@ export const card: Pick<FormConfig<PaymentFormValues>, 'cardNumber' | 'cardExpir
     isVisible: (values: PaymentFormValues) => values.paymentType === "card",
     isRequired: (values: PaymentFormValues) => values.paymentType === "card",
     dependencies: ["paymentType"] as const,
+    // Номер карты не сохраняется в черновик
+    sensitive: true,
     // Форматтер — добавляем пробелы каждые 4 цифры
     formatter: (value: string) => {
       const digits = value.replace(/\D/g, "").slice(0, 16);
@@ -64,6 +66,7 @@ export const card: Pick<FormConfig<PaymentFormValues>, 'cardNumber' | 'cardExpir
     isVisible: (values: PaymentFormValues) => values.paymentType === "card",
     isRequired: (values: PaymentFormValues) => values.paymentType === "card",
     dependencies: ["paymentType"] as const,
+    sensitive: true,
     formatter: (value: string) => value.replace(/\D/g, "").slice(0, 3),
     validate: (value: string, values: PaymentFormValues) => {
       if (values.paymentType !== "card") return;
@@ -10,13 +10,9 @@ export const checkboxes: Pick<FormConfig<PaymentFormValues>, 'agreeTerms' | 'new
     value: false,
     label: (t: TranslateFn) => t("form.agreeTerms"),
     description: (t: TranslateFn) => t("form.agreeTermsDescription"),
+    // Boolean + isRequired → чекбокс должен быть отмечен (validation.required)
     isRequired: true,
     dependencies: [],
-    validate: (value: boolean) => {
-      if (!value) {
-        return "validation.required";
-      }
-    },
   },
   newsletter: {
     types: {
@@ -18,11 +18,14 @@ export const passport: FormConfig<PaymentFormValues> = {
     
     number: {
       value: "",
+      // Вложенное поле исключается из черновика, остальной passport сохраняется
+      persist: false,
       label: (t: TranslateFn) => t("form.passport.number"),
       placeholder: (t: TranslateFn) => t("form.passport.numberPlaceholder"),
       isRequired: true,
+      // Пустое значение обрабатывается автоматически (isRequired → validation.required)
       validate: (value: string) => {
-        if (!value || value.length < 6) {
+        if (value.length < 6) {
           return "form.passport.numberTooShort";
         }
         return undefined;
@@ -38,9 +41,6 @@ export const passport: FormConfig<PaymentFormValues> = {
       label: (t: TranslateFn) => t("form.passport.issueDate"),
       isRequired: true,
       validate: (value: string) => {
-        if (!value) {
-          return "validation.required";
-        }
         // Проверяем что дата не в будущем
         const date = new Date(value);
         if (date > new Date()) {
@@ -57,7 +57,7 @@ export const passport: FormConfig<PaymentFormValues> = {
     expiryDate: {
       value: "",
       label: (t: TranslateFn) => t("form.passport.expiryDate"),
-      validate: (value: string, values: PaymentFormValues) => {
+      validate: (value: string) => {
         if (!value) return undefined;
         
         // Проверяем что дата не в прошлом
@@ -66,17 +66,9 @@ export const passport: FormConfig<PaymentFormValues> = {
           return "form.passport.expiryDatePast";
         }
         
-        // Проверяем что дата выдачи раньше даты окончания
-        if (values.passport?.issueDate) {
-          const issueDate = new Date(values.passport.issueDate);
-          if (date <= issueDate) {
-            return "form.passport.expiryDateBeforeIssue";
-          }
-        }
-        
         return undefined;
       },
-      dependencies: ["passport.issueDate"], // Зависимость от другого вложенного поля!
+      // Сравнение с issueDate — в validatePassportDates (validate уровня формы)
       types: {
         dataType: "String" as const,
         type: "date"
@@ -84,3 +76,18 @@ export const passport: FormConfig<PaymentFormValues> = {
     }
   } as any
 };
+
+/**
+ * Перекрёстное правило: дата окончания позже даты выдачи
+ * Подключается в createForm({ validate }) — ошибка попадает на passport.expiryDate
+ */
+export const validatePassportDates = (values: PaymentFormValues) => {
+  const { issueDate, expiryDate } = values.passport ?? {};
+  if (!issueDate || !expiryDate) return undefined;
+
+  if (new Date(expiryDate) <= new Date(issueDate)) {
+    return { "passport.expiryDate": "form.passport.expiryDateBeforeIssue" };
+  }
+
+  return undefined;
+};
@@ -28,7 +28,7 @@ export const payment: Pick<FormConfig<PaymentFormValues>, 'paymentType' | 'amoun
     dependencies: [],
     validate: (value: number) => {
       if (value <= 0) {
-        return "validation.amountMin";
+        return { key: "validation.amountMin", params: { min: 1 } };
       }
     },
   },
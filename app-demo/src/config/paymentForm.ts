@@ -1,154 +1,38 @@
 /**
- * Демо конфигурация формы оплаты
- * 
- * Демонстрирует все возможности Palistor:
- * - Условная видимость (isVisible)
- * - Условная обязательность (isRequired)
- * - Условная блокировка (isDisabled, isReadOnly)
- * - Валидация (validate)
- * - Форматтеры (formatter)
- * - Связанные изменения (setter)
- * - Зависимости (dependencies)
- * - i18n (label, placeholder, description)
- * - Computed values (value as function)
+ * Демо форма оплаты — createForm поверх paymentFormConfig
  */
 
-import { createForm } from "@palistor";
-import type { FormConfig, TranslateFn } from "@palistor";
+import { createForm, devtoolsMiddleware } from "@palistor";
 import { useTranslations } from "next-intl";
-import { computed } from "./computed";
-import { card } from "./card";
-
-// ============================================================================
-// Типы формы
-// ============================================================================
 
 import type { Country, PaymentFormValues, PaymentType, AccountType, CryptoNetwork } from "./types";
-import { contacts } from "./contacts";
+import { paymentFormConfig, paymentFormDefaults } from "./paymentFormConfig";
+import { validatePassportDates } from "./passport";
 
 // Экспортируем типы для использования в компонентах
 export type { PaymentFormValues, PaymentType, AccountType, CryptoNetwork, Country };
-import { accountType } from "./accountType";
-import { address } from "./address";
-import { checkboxes } from "./checkboxes";
-import { bank } from "./bank";
-import { payment } from "./payment";
-import { crypto } from "./crypto";
-import { passport } from "./passport";
-
-// ============================================================================
-// Конфигурация
-// ============================================================================
-
-export const paymentFormConfig: FormConfig<PaymentFormValues> = {
-  // --------------------------------------------------------------------------
-  // Тип оплаты — главный триггер для условной видимости
-  // --------------------------------------------------------------------------
-  ...payment,
-
-  // --------------------------------------------------------------------------
-  // Поля карты — видны только при paymentType === "card"
-  // --------------------------------------------------------------------------
-  ...card,
-
-  // --------------------------------------------------------------------------
-  // Поля банковского перевода
-  // --------------------------------------------------------------------------
-  ...bank,
-
-  // --------------------------------------------------------------------------
-  // Поля криптовалюты
-  // --------------------------------------------------------------------------
-  ...crypto,
-
-  // --------------------------------------------------------------------------
-  // Контактные данные
-  // --------------------------------------------------------------------------
-  ...contacts,
-
-  // --------------------------------------------------------------------------
-  // Тип аккаунта — демонстрация условной обязательности
-  // --------------------------------------------------------------------------
-  ...accountType,
-
-  // --------------------------------------------------------------------------
-  // Адрес — демонстрация каскадных зависимостей
-  // --------------------------------------------------------------------------
-  ...address,
-
-  // --------------------------------------------------------------------------
-  // Паспорт — демонстрация ВЛОЖЕННЫХ ПОЛЕЙ (nested)
-  // --------------------------------------------------------------------------
-  ...passport,
-
-  // --------------------------------------------------------------------------
-  // Чекбоксы
-  // --------------------------------------------------------------------------
-  ...checkboxes,
-
-  // --------------------------------------------------------------------------
-  // Калькулятор — демонстрация computed values
-  // --------------------------------------------------------------------------
-  ...computed,
-
-  // --------------------------------------------------------------------------
-  // Комментарий — статическое поле без зависимостей
-  // --------------------------------------------------------------------------
-  comment: {
-    types: {
-      dataType: "String" as const,
-      type: "string"
-    },
-    value: "",
-    label: (t: TranslateFn) => t("form.comment"),
-    placeholder: (t: TranslateFn) => t("form.commentPlaceholder"),
-    dependencies: [], // Пересчёт только при изменении себя
-  },
-};
-
-// ============================================================================
-// Значения по умолчанию
-// ============================================================================
-
-export const paymentFormDefaults: PaymentFormValues = {
-  paymentType: "card",
-  cardNumber: "",
-  cardExpiry: "",
-  cardCvv: "",
-  bankAccount: "",
-  bankBik: "",
-  cryptoWallet: "",
-  cryptoNetwork: "ethereum",
-  amount: 0,
-  comment: "",
-  email: "",
-  phone: "",
-  name: "",
-  accountType: "personal",
-  companyName: "",
-  country: "",
-  city: "",
-  shippingCost: 0,
-  agreeTerms: false,
-  newsletter: false,
-  price: 100,
-  quantity: 1,
-  total: 100,
-  passport: {
-    id: null,
-    number: "",
-    issueDate: "",
-    expiryDate: "",
-  },
-};
+export { paymentFormConfig, paymentFormDefaults };
 
 // ============================================================================
 // createForm — новый API
 // ============================================================================
 
-export const { useForm: usePaymentForm } = createForm<PaymentFormValues>({
+export const {
+  useForm: usePaymentForm,
+  useField: usePaymentField,
+  useFormState: usePaymentFormState,
+  useWatch: usePaymentWatch,
+} = createForm<PaymentFormValues>({
   config: paymentFormConfig,
   defaults: paymentFormDefaults,
   translateFunction: useTranslations,
   type: "PaymentDemo",
+  // Ошибка появляется после первого blur и дальше обновляется при вводе
+  validationMode: "onTouched",
+  // Перекрёстные правила между полями
+  validate: validatePassportDates,
+  // Undo / redo правок (Ctrl+Z / Ctrl+Shift+Z в FormActions)
+  history: true,
+  // Действия и состояние в Redux DevTools (инстанс "PaymentDemo:<id>")
+  middleware: process.env.NODE_ENV === "development" ? [devtoolsMiddleware()] : [],
 });
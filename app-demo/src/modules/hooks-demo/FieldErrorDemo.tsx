@@ -1,6 +1,6 @@
 "use client";
 
-import { usePaymentForm } from "@/config/paymentForm";
+import { usePaymentFormState } from "@/config/paymentForm";
 
 interface FieldErrorDemoProps {
   formId: string;
@@ -8,13 +8,12 @@ interface FieldErrorDemoProps {
 }
 
 export function FieldErrorDemo({ formId, fieldKey }: FieldErrorDemoProps) {
-  const { fields } = usePaymentForm(formId);
-  const error = fields[fieldKey as keyof typeof fields]?.error;
+  const error = usePaymentFormState(formId, (state) => state.fields[fieldKey]?.error);
 
   return (
     <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20">
       <h3 className="font-medium text-red-900 dark:text-red-100 mb-2">
-        useForm — error(&quot;{fieldKey}&quot;)
+        useFormState — error(&quot;{fieldKey}&quot;)
       </h3>
       <p className="text-sm text-red-700 dark:text-red-300">
         Error:{" "}
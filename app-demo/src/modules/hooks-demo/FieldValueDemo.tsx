@@ -1,6 +1,6 @@
 "use client";
 
-import { usePaymentForm } from "@/config/paymentForm";
+import { usePaymentFormState } from "@/config/paymentForm";
 
 interface FieldValueDemoProps {
   formId: string;
@@ -8,13 +8,12 @@ interface FieldValueDemoProps {
 }
 
 export function FieldValueDemo({ formId, fieldKey }: FieldValueDemoProps) {
-  const { values } = usePaymentForm(formId);
-  const value = values[fieldKey as keyof typeof values];
+  const value = usePaymentFormState(formId, (state) => state.fields[fieldKey]?.value);
 
   return (
     <div className="p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20">
       <h3 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
-        useForm — value(&quot;{fieldKey}&quot;)
+        useFormState — value(&quot;{fieldKey}&quot;)
       </h3>
       <p className="text-sm text-blue-700 dark:text-blue-300">
         Value:{" "}
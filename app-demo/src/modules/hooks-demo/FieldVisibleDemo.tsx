@@ -1,6 +1,6 @@
 "use client";
 
-import { usePaymentForm } from "@/config/paymentForm";
+import { usePaymentFormState } from "@/config/paymentForm";
 
 interface FieldVisibleDemoProps {
   formId: string;
@@ -8,13 +8,15 @@ interface FieldVisibleDemoProps {
 }
 
 export function FieldVisibleDemo({ formId, fieldKey }: FieldVisibleDemoProps) {
-  const { fields } = usePaymentForm(formId);
-  const isVisible = fields[fieldKey as keyof typeof fields]?.isVisible ?? true;
+  const isVisible = usePaymentFormState(
+    formId,
+    (state) => state.fields[fieldKey]?.isVisible ?? true
+  );
 
   return (
     <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20">
       <h3 className="font-medium text-green-900 dark:text-green-100 mb-2">
-        useForm — isVisible(&quot;{fieldKey}&quot;)
+        useFormState — isVisible(&quot;{fieldKey}&quot;)
       </h3>
       <p className="text-sm text-green-700 dark:text-green-300">
         isVisible:{" "}
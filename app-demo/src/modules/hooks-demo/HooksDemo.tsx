@@ -6,6 +6,7 @@ import { FieldStateDemo } from "./FieldStateDemo";
 import { FieldValueDemo } from "./FieldValueDemo";
 import { FieldVisibleDemo } from "./FieldVisibleDemo";
 import { FieldErrorDemo } from "./FieldErrorDemo";
+import { WatchDemo } from "./WatchDemo";
 
 interface HooksDemoProps {
   formId: string;
@@ -25,6 +26,7 @@ export function HooksDemo({ formId }: HooksDemoProps) {
         <FieldValueDemo formId={formId} fieldKey="cardNumber" />
         <FieldVisibleDemo formId={formId} fieldKey="cardNumber" />
         <FieldErrorDemo formId={formId} fieldKey="email" />
+        <WatchDemo formId={formId} />
       </div>
     </div>
   );
@@ -0,0 +1,27 @@
+"use client";
+
+import { usePaymentWatch } from "@/config/paymentForm";
+
+interface WatchDemoProps {
+  formId: string;
+}
+
+export function WatchDemo({ formId }: WatchDemoProps) {
+  // Ре-рендер только при изменении страны или дат паспорта
+  const [country, issueDate, expiryDate] = usePaymentWatch(formId, [
+    "country",
+    "passport.issueDate",
+    "passport.expiryDate",
+  ]);
+
+  return (
+    <div className="p-4 rounded-lg bg-purple-50 dark:bg-purple-900/20">
+      <h3 className="font-medium text-purple-900 dark:text-purple-100 mb-2">
+        useWatch([&quot;country&quot;, &quot;passport.issueDate&quot;, &quot;passport.expiryDate&quot;])
+      </h3>
+      <pre className="text-xs text-purple-700 dark:text-purple-300 overflow-auto">
+        {JSON.stringify({ country, issueDate, expiryDate }, null, 2)}
+      </pre>
+    </div>
+  );
+}
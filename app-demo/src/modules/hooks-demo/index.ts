@@ -3,3 +3,4 @@ export { FieldStateDemo } from "./FieldStateDemo";
 export { FieldValueDemo } from "./FieldValueDemo";
 export { FieldVisibleDemo } from "./FieldVisibleDemo";
 export { FieldErrorDemo } from "./FieldErrorDemo";
+export { WatchDemo } from "./WatchDemo";
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect } from "react";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/Button";
 
@@ -11,7 +12,24 @@ interface FormActionsProps {
 
 export function FormActions({ formId }: FormActionsProps) {
   const t = useTranslations();
-  const { submit, reset, submitting, dirty } = usePaymentForm(formId);
+  const { submit, reset, submitting, dirty, undo, redo, canUndo, canRedo } =
+    usePaymentForm(formId);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd на macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
 
   return (
     <div className="flex gap-4 pt-4 border-t border-zinc-200 dark:border-zinc-800">
@@ -31,6 +49,24 @@ export function FormActions({ formId }: FormActionsProps) {
       >
         {t("buttons.reset")}
       </Button>
+      <Button
+        type="button"
+        color="default"
+        variant="light"
+        isDisabled={!canUndo}
+        onClick={undo}
+      >
+        {t("buttons.undo")}
+      </Button>
+      <Button
+        type="button"
+        color="default"
+        variant="light"
+        isDisabled={!canRedo}
+        onClick={redo}
+      >
+        {t("buttons.redo")}
+      </Button>
       {dirty && (
         <span className="flex items-center text-sm text-amber-600 dark:text-amber-400">
           ⚠️ {t("form.unsavedChanges")}
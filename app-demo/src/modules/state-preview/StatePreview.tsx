@@ -11,7 +11,7 @@ interface StatePreviewProps {
 
 export function StatePreview({ formId }: StatePreviewProps) {
   const t = useTranslations();
-  const { values, errors, dirty, submitting } = usePaymentForm(formId);
+  const { values, errors, dirty, submitting, status, submitCount } = usePaymentForm(formId);
 
   return (
     <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6 sticky top-8">
@@ -24,6 +24,9 @@ export function StatePreview({ formId }: StatePreviewProps) {
         <div className="flex gap-2 flex-wrap">
           {dirty && <Badge color="amber">Dirty</Badge>}
           {submitting && <Badge color="blue">Submitting...</Badge>}
+          {status === "succeeded" && <Badge color="green">Submitted</Badge>}
+          {status === "failed" && <Badge color="red">Submit failed</Badge>}
+          {submitCount > 0 && <Badge>Attempts: {submitCount}</Badge>}
           {Object.keys(errors).length > 0 && (
             <Badge color="red">{Object.keys(errors).length} errors</Badge>
           )}
@@ -0,0 +1,71 @@
+import type { FormState } from "../types";
+import type { ActionContext } from "./createInitialState";
+import { createComputeContext } from "./createComputeContext";
+import { refreshFieldStates } from "../compute/computeFieldStates";
+import {
+  getErrorVisibility,
+  resolveValidationMode,
+  type FieldInteraction,
+} from "../validation/validationMode";
+
+/**
+ * Обрабатывает взаимодействие пользователя с полем (фокус, ввод, потеря фокуса)
+ *
+ * - focus отмечает поле в visitedFields
+ * - blur отмечает поле в touchedFields (и fields[key].isTouched)
+ * - видимость ошибки меняется по validationMode поля
+ *
+ * Ошибки уже вычислены — меняется только их показ.
+ *
+ * @param state - текущее состояние
+ * @param key - путь к полю
+ * @param interaction - "focus", "change" (ввод) или "blur"
+ * @param ctx - контекст (config и validationMode формы)
+ * @returns новое состояние (или то же, если ничего не изменилось)
+ *
+ * @example
+ * // validationMode: "onTouched"
+ * const newState = applyFieldInteraction(state, "email", "blur", ctx);
+ * newState.touchedFields.email // → true
+ * newState.visibleErrors.email // → true
+ */
+export function applyFieldInteraction<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string,
+  interaction: FieldInteraction,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const mode = resolveValidationMode(ctx.config, key, ctx.validationMode);
+  const wasVisible = !!state.visibleErrors[key];
+  const visible = getErrorVisibility(mode, interaction, wasVisible);
+  const touch = interaction === "blur" && !state.touchedFields[key];
+  const visit = interaction === "focus" && !state.visitedFields[key];
+
+  if (visible === wasVisible && !touch && !visit) {
+    return state;
+  }
+
+  const visibleErrors = { ...state.visibleErrors };
+  if (visible) {
+    visibleErrors[key] = true;
+  } else {
+    delete visibleErrors[key];
+  }
+
+  const nextState: FormState<TValues> = {
+    ...state,
+    touchedFields: touch ? { ...state.touchedFields, [key]: true } : state.touchedFields,
+    visitedFields: visit ? { ...state.visitedFields, [key]: true } : state.visitedFields,
+    visibleErrors,
+  };
+
+  if (!touch) {
+    return nextState;
+  }
+
+  // isTouched — часть fieldState
+  return {
+    ...nextState,
+    fields: refreshFieldStates(state.fields, [key], createComputeContext(nextState, ctx)),
+  };
+}
@@ -0,0 +1,53 @@
+import type { FormState, ValidationError } from "../types";
+import type { ActionContext } from "./createInitialState";
+import { applyExternalErrors } from "./setExternalErrors";
+import { isRelatedPath } from "../../utils/pathUtils";
+
+/**
+ * Удаляет внешние ошибки (setError / setErrors)
+ *
+ * Путь удаляет и ошибки связанных полей: "passport" → "passport.number".
+ *
+ * @param state - текущее состояние
+ * @param paths - пути полей (без paths — все внешние ошибки)
+ * @param ctx - контекст
+ * @returns новое состояние (или то же, если ничего не изменилось)
+ *
+ * @example
+ * clearExternalErrors(state, ["email"], ctx);
+ * clearExternalErrors(state, undefined, ctx); // все
+ */
+export function clearExternalErrors<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  paths: readonly string[] | undefined,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  return applyExternalErrors(state, omitExternalErrors(state.externalErrors, paths), ctx);
+}
+
+/**
+ * Внешние ошибки без путей, связанных с paths (сам путь, предки и потомки)
+ *
+ * Используется при изменении поля: правка "passport.number" снимает
+ * ошибки "passport.number" и "passport".
+ *
+ * @returns тот же объект, если удалять нечего
+ */
+export function omitExternalErrors(
+  externalErrors: Record<string, ValidationError>,
+  paths: readonly string[] | undefined
+): Record<string, ValidationError> {
+  const keys = Object.keys(externalErrors);
+  if (keys.length === 0) return externalErrors;
+
+  const removed = paths
+    ? keys.filter((key) => paths.some((path) => isRelatedPath(key, path)))
+    : keys;
+  if (removed.length === 0) return externalErrors;
+
+  const result = { ...externalErrors };
+  for (const key of removed) {
+    delete result[key];
+  }
+  return result;
+}
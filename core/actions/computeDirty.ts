@@ -1,10 +1,12 @@
+import { isDeepEqual } from "../../utils/helpers";
+
 /**
  * Проверяет, изменилась ли форма относительно initialValues
- * Использует глубокое сравнение через JSON (простое и надёжное)
+ * Глубокое сравнение (по полям; Date — по времени)
  */
 export const computeDirty = <TValues extends Record<string, any>>(
   values: TValues,
   initialValues: TValues
 ): boolean => {
-  return JSON.stringify(values) !== JSON.stringify(initialValues);
-}
\ No newline at end of file
+  return !isDeepEqual(values, initialValues);
+}
@@ -4,17 +4,36 @@
 
 import type { ActionContext } from "./createInitialState";
 import type { ComputeContext } from "../compute/types";
+import { DEFAULT_REQUIRED_ERROR } from "../compute/required";
 import type { FormState } from "../types";
 
+/** Часть FormState, от которой зависит вычисление полей */
+export type ComputeStateSource<TValues extends Record<string, any>> = Pick<
+  FormState<TValues>,
+  | "values"
+  | "initialValues"
+  | "asyncErrors"
+  | "formErrors"
+  | "externalErrors"
+  | "validating"
+  | "touchedFields"
+>;
+
 export const createComputeContext = <TValues extends Record<string, any>>(
-  state: FormState<TValues>,
+  state: ComputeStateSource<TValues>,
   ctx: ActionContext<TValues>
 ): ComputeContext<TValues> => {
   return {
     values: state.values,
+    initialValues: state.initialValues,
     config: ctx.config,
     translate: ctx.translate,
     locale: ctx.locale,
-    showErrors: state.showErrors,
+    asyncErrors: state.asyncErrors,
+    formErrors: state.formErrors,
+    externalErrors: state.externalErrors,
+    validating: state.validating,
+    touchedFields: state.touchedFields,
+    requiredError: ctx.requiredError ?? DEFAULT_REQUIRED_ERROR,
   };
-}
\ No newline at end of file
+}
@@ -1,9 +1,16 @@
 
-import type { FormState, FormConfig, TranslateFn } from "../types";
+import type {
+  FormState,
+  FormConfig,
+  TranslateFn,
+  ValidationMode,
+  SchemaAdapter,
+  FormValidator,
+} from "../types";
 import { computeAllFieldStates } from "../compute/computeFieldStates";
-import { extractErrors } from "../compute/extractors";
-
-import { type ComputeContext } from "../compute/types";
+import { extractDirtyFields, extractErrors } from "../compute/extractors";
+import { createComputeContext } from "./createComputeContext";
+import { runFormValidators } from "../validation/formValidation";
 
 // ============================================================================
 // Actions — чистые функции для изменения состояния
@@ -20,6 +27,16 @@ export interface ActionContext<TValues extends Record<string, any>> {
   config: FormConfig<TValues>;
   translate: TranslateFn;
   locale: string;
+  /** Ключ ошибки для пустых обязательных полей (по умолчанию "validation.required") */
+  requiredError?: string;
+  /** Режим показа ошибок формы (по умолчанию "onSubmit") */
+  validationMode?: ValidationMode;
+  /** Валидатор уровня формы (ошибки по путям) */
+  validate?: FormValidator<TValues>;
+  /** Схема валидации values */
+  schema?: SchemaAdapter<TValues>;
+  /** Значения по умолчанию (для resetForm в formReducer) */
+  defaults?: TValues;
 }
 
 /**
@@ -46,13 +63,19 @@ export function createInitialState<TValues extends Record<string, any>>(
   const values = { ...defaults, ...initial } as TValues;
 
   // Вычисляем fields для всех полей (рекурсивный обход конфига)
-  const computeCtx: ComputeContext<TValues> = {
-    values,
-    config: ctx.config,
-    translate: ctx.translate,
-    locale: ctx.locale,
-    showErrors: false,
-  };
+  const formErrors = runFormValidators(ctx, values);
+  const computeCtx = createComputeContext(
+    {
+      values,
+      initialValues: values,
+      asyncErrors: {},
+      formErrors,
+      externalErrors: {},
+      validating: {},
+      touchedFields: {},
+    },
+    ctx
+  );
 
   const fields = computeAllFieldStates(computeCtx);
   const errors = extractErrors(fields);
@@ -61,9 +84,20 @@ export function createInitialState<TValues extends Record<string, any>>(
     values,
     fields,
     errors,
+    asyncErrors: {},
+    formErrors,
+    externalErrors: {},
+    validating: {},
     submitting: false,
+    status: "idle",
+    hydrating: false,
+    submitCount: 0,
     dirty: false,
     showErrors: false,
+    dirtyFields: extractDirtyFields(fields),
+    touchedFields: {},
+    visitedFields: {},
+    visibleErrors: {},
     initialValues: values,
     locale: ctx.locale,
   };
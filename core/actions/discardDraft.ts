@@ -0,0 +1,19 @@
+import type { FormState } from "../types";
+
+/**
+ * Отказ от черновика, ожидающего решения (pendingDraft)
+ *
+ * Values не меняются; сам черновик удаляет из хранилища persistMiddleware.
+ *
+ * @param state - текущее состояние
+ * @returns новое состояние без pendingDraft (или то же, если черновика нет)
+ */
+export function discardDraft<TValues extends Record<string, any>>(
+  state: FormState<TValues>
+): FormState<TValues> {
+  if (!state.pendingDraft) {
+    return state;
+  }
+
+  return { ...state, pendingDraft: undefined };
+}
@@ -1,41 +1,23 @@
 import type { FormState } from "../types";
 
-import { type ComputeContext } from "../compute/types";
-import type { ActionContext } from "./createInitialState";
-import { computeAllFieldStates } from "../compute/computeFieldStates";
-import { extractErrors } from "../compute/extractors";
-
 /**
  * Включает показ ошибок (обычно после первого submit)
  *
+ * Ошибки вычисляются всегда, поэтому fields не пересчитываются —
+ * меняется только флаг отображения (isInvalid / errorMessage в getFieldProps).
+ *
  * @param state - текущее состояние
- * @param ctx - контекст
- * @returns новое состояние с пересчитанными errors
+ * @returns новое состояние с showErrors=true
  */
 export function enableShowErrors<TValues extends Record<string, any>>(
-  state: FormState<TValues>,
-  ctx: ActionContext<TValues>
+  state: FormState<TValues>
 ): FormState<TValues> {
   if (state.showErrors) {
     return state;
   }
 
-  // Пересчитываем fields с showErrors=true
-  const computeCtx: ComputeContext<TValues> = {
-    values: state.values,
-    config: ctx.config,
-    translate: ctx.translate,
-    locale: state.locale,
-    showErrors: true,
-  };
-
-  const fields = computeAllFieldStates(computeCtx);
-  const errors = extractErrors(fields);
-
   return {
     ...state,
-    fields,
-    errors,
     showErrors: true,
   };
 }
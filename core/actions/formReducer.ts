@@ -0,0 +1,157 @@
+/**
+ * formReducer — единая точка изменения FormState
+ *
+ * Каждое действие над формой — именованный сериализуемый объект (FormAction).
+ * Controller передаёт их через dispatch → middleware → formReducer,
+ * поэтому логирование, аналитика, аудит и инварианты подключаются
+ * через CreateFormConfig.middleware без изменения createForm.
+ */
+
+import type {
+  DraftDescriptor,
+  FormState,
+  FieldArrayOperation,
+  SubmitStatus,
+  ValidationError,
+} from "../types";
+import type { ActionContext } from "./createInitialState";
+import type { FieldInteraction } from "../validation/validationMode";
+import type { SubmitStatusDetails } from "./setSubmitStatus";
+import type { AsyncValidationResult } from "./setAsyncValidation";
+import { setFieldValue } from "./setFieldValue";
+import { setFieldValues } from "./setFieldValues";
+import { updateFieldArray } from "./updateFieldArray";
+import { mergeInitialValues } from "./mergeInitialValues";
+import { hydrateForm } from "./hydrateForm";
+import { restoreDraft } from "./restoreDraft";
+import { discardDraft } from "./discardDraft";
+import { resetForm } from "./resetForm";
+import { setFormLocale } from "./setFormLocale";
+import { refreshTranslations } from "./refreshTranslations";
+import { enableShowErrors } from "./enableShowErrors";
+import { setShowErrors } from "./setShowErrors";
+import { applyFieldInteraction } from "./applyFieldInteraction";
+import { setExternalErrors } from "./setExternalErrors";
+import { clearExternalErrors } from "./clearExternalErrors";
+import { setSubmitStatus } from "./setSubmitStatus";
+import { setAsyncValidation } from "./setAsyncValidation";
+
+/**
+ * Действие над формой (type — имя чистой функции из core/actions)
+ */
+export type FormAction<TValues extends Record<string, any> = Record<string, any>> =
+  | { type: "setFieldValue"; key: string; value: unknown; interaction?: FieldInteraction }
+  | {
+      type: "setFieldValues";
+      values: Partial<TValues>;
+      key?: string;
+      interaction?: FieldInteraction;
+    }
+  | { type: "updateFieldArray"; key: string; operation: FieldArrayOperation }
+  | { type: "mergeInitialValues"; initial: Partial<TValues> }
+  | {
+      type: "hydrateForm";
+      draft?: DraftDescriptor<TValues>;
+      prompt?: boolean;
+      initial?: Partial<TValues>;
+    }
+  | { type: "restoreDraft" }
+  | { type: "discardDraft" }
+  | { type: "resetForm"; values?: Partial<TValues> }
+  | { type: "setFormLocale"; locale: string }
+  | { type: "refreshTranslations" }
+  | { type: "enableShowErrors" }
+  | { type: "setShowErrors"; showErrors: boolean }
+  | { type: "applyFieldInteraction"; key: string; interaction: FieldInteraction }
+  | { type: "setExternalErrors"; errors: Record<string, ValidationError | undefined> }
+  | { type: "clearExternalErrors"; paths?: string[] }
+  | { type: "setSubmitStatus"; status: SubmitStatus; details?: SubmitStatusDetails }
+  | { type: "setAsyncValidation"; key: string; result: AsyncValidationResult }
+  | { type: "replaceFormState"; state: FormState<TValues> };
+
+/** Имя действия */
+export type FormActionType = FormAction["type"];
+
+/**
+ * Применяет действие к состоянию
+ *
+ * @param state - текущее состояние
+ * @param action - действие
+ * @param ctx - контекст (config, translate, defaults, ...)
+ * @returns новое состояние (или то же, если ничего не изменилось)
+ *
+ * @example
+ * store.setState((prev) =>
+ *   formReducer(prev, { type: "setFieldValue", key: "passport.number", value: "123" }, ctx)
+ * );
+ */
+export function formReducer<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  action: FormAction<TValues>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  switch (action.type) {
+    case "setFieldValue":
+      return withInteraction(
+        setFieldValue(state, action.key, action.value, ctx),
+        action.key,
+        action.interaction,
+        ctx
+      );
+    case "setFieldValues":
+      return withInteraction(
+        setFieldValues(state, action.values, ctx),
+        action.key,
+        action.interaction,
+        ctx
+      );
+    case "updateFieldArray":
+      return updateFieldArray(state, action.key, action.operation, ctx);
+    case "mergeInitialValues":
+      return mergeInitialValues(state, action.initial, ctx);
+    case "hydrateForm":
+      return hydrateForm(state, action.draft, !!action.prompt, action.initial, ctx);
+    case "restoreDraft":
+      return restoreDraft(state, ctx);
+    case "discardDraft":
+      return discardDraft(state);
+    case "resetForm":
+      return resetForm(state, action.values, ctx.defaults ?? state.initialValues, ctx);
+    case "setFormLocale":
+      return setFormLocale(state, action.locale, ctx);
+    case "refreshTranslations":
+      return refreshTranslations(state, ctx);
+    case "enableShowErrors":
+      return enableShowErrors(state);
+    case "setShowErrors":
+      return setShowErrors(state, action.showErrors);
+    case "applyFieldInteraction":
+      return applyFieldInteraction(state, action.key, action.interaction, ctx);
+    case "setExternalErrors":
+      return setExternalErrors(state, action.errors, ctx);
+    case "clearExternalErrors":
+      return clearExternalErrors(state, action.paths, ctx);
+    case "setSubmitStatus":
+      return setSubmitStatus(state, action.status, action.details);
+    case "setAsyncValidation":
+      return setAsyncValidation(state, action.key, action.result, ctx);
+    case "replaceFormState":
+      // Снимок целиком (devtools: jump / import)
+      return action.state;
+    default:
+      return state;
+  }
+}
+
+/**
+ * Ввод пользователя (interaction) применяется в том же действии, что и значение,
+ * чтобы подписчики получали одно обновление на нажатие клавиши
+ */
+function withInteraction<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string | undefined,
+  interaction: FieldInteraction | undefined,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  return key && interaction ? applyFieldInteraction(state, key, interaction, ctx) : state;
+}
@@ -0,0 +1,69 @@
+import type { DraftDescriptor, FormState } from "../types";
+import type { ActionContext } from "./createInitialState";
+import { setFieldValues } from "./setFieldValues";
+import { mergeInitialValues } from "./mergeInitialValues";
+import { mergeState } from "../../utils/materialize";
+
+/**
+ * Черновик становится начальным состоянием (как при синхронной загрузке):
+ * values и initialValues мержатся с ним, форма не dirty
+ */
+export function applyDraftValues<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  values: Partial<TValues>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  return setFieldValues(
+    { ...state, initialValues: mergeState(state.initialValues, values) },
+    mergeState(state.values, values),
+    ctx
+  );
+}
+
+/**
+ * Применяет черновик, загруженный из асинхронного хранилища
+ *
+ * restoreMode "auto" — черновик сразу становится начальным состоянием,
+ * "prompt" — сохраняется в pendingDraft до restoreDraft / discardDraft.
+ * Если форму уже сбросили (hydrating=false), черновик игнорируется.
+ *
+ * Порядок тот же, что при синхронной загрузке (defaults → черновик → initial):
+ * - поля, изменённые пользователем во время загрузки, черновик не перекрывает
+ * - initial с сервера мержится поверх черновика
+ *
+ * @param state - текущее состояние (values = defaults + initial + правки)
+ * @param draft - черновик (undefined — записи нет)
+ * @param prompt - отложить решение до пользователя
+ * @param initial - данные с сервера, уже смерженные в форму
+ * @param ctx - контекст
+ * @returns новое состояние с hydrating=false
+ */
+export function hydrateForm<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  draft: DraftDescriptor<TValues> | undefined,
+  prompt: boolean,
+  initial: Partial<TValues> | undefined,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  if (!state.hydrating) {
+    return state;
+  }
+
+  if (!draft) {
+    return { ...state, hydrating: false };
+  }
+
+  if (prompt) {
+    return { ...state, hydrating: false, pendingDraft: draft };
+  }
+
+  const untouched = Object.fromEntries(
+    Object.entries(draft.values).filter(([key]) => !state.dirtyFields[key])
+  ) as Partial<TValues>;
+  const restored = applyDraftValues(state, untouched, ctx);
+
+  return {
+    ...(initial ? mergeInitialValues(restored, initial, ctx) : restored),
+    hydrating: false,
+  };
+}
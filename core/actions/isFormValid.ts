@@ -1,8 +1,15 @@
 import type { FormState } from "../types";
+import { isFieldVisible } from "../compute/visibility";
 
 /**
  * Проверяет валидность формы (нет ошибок в видимых полях)
  *
+ * Не зависит от showErrors: ошибки вычисляются всегда,
+ * поэтому результат достоверен с первого рендера.
+ * Поле внутри скрытого nested-родителя считается скрытым.
+ * Ошибка уровня формы или внешняя ошибка (setError) по пути без поля
+ * (FORM_ERROR_KEY) делает форму невалидной.
+ *
  * @param state - состояние формы
  * @returns true если форма валидна
  */
@@ -10,11 +17,18 @@ export function isFormValid<TValues extends Record<string, any>>(
   state: FormState<TValues>
 ): boolean {
   // Проверяем только видимые поля
-  for (const key of Object.keys(state.fields) as Array<keyof TValues>) {
-    const field = state.fields[key];
-    if (field.isVisible && field.error) {
+  for (const key of Object.keys(state.fields)) {
+    if (state.fields[key].error && isFieldVisible(state.fields, key)) {
+      return false;
+    }
+  }
+
+  // Ошибки уровня формы и внешние ошибки, которые не сопоставились ни одному полю
+  for (const key of [...Object.keys(state.formErrors), ...Object.keys(state.externalErrors)]) {
+    if (!state.fields[key]) {
       return false;
     }
   }
+
   return true;
 }
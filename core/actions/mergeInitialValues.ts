@@ -0,0 +1,48 @@
+import type { FormState } from "../types";
+import type { ActionContext } from "./createInitialState";
+import { setFieldValues } from "./setFieldValues";
+
+/**
+ * Мержит данные с сервера (UseFormOptions.initial) в форму
+ *
+ * - значение берётся из initial, только если поле не изменено пользователем
+ *   (совпадает с initialValues) — dirty-поля остаются как есть
+ * - initialValues обновляются, только если изменилось хотя бы одно значение;
+ *   иначе возвращается то же состояние
+ *
+ * @param state - текущее состояние
+ * @param initial - данные с сервера
+ * @param ctx - контекст
+ * @returns новое состояние (или то же, если значения не изменились)
+ */
+export function mergeInitialValues<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  initial: Partial<TValues>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const newValues = { ...state.values };
+  let hasChanges = false;
+
+  for (const key of Object.keys(initial) as Array<keyof TValues>) {
+    if (initial[key] === undefined) continue;
+
+    // Поле dirty, если отличается от initialValues
+    const isDirty = !Object.is(state.values[key], state.initialValues[key]);
+
+    // Поле не трогали → берём из initial, dirty → оставляем как есть
+    if (!isDirty && !Object.is(newValues[key], initial[key])) {
+      newValues[key] = initial[key] as TValues[keyof TValues];
+      hasChanges = true;
+    }
+  }
+
+  if (!hasChanges) {
+    return state;
+  }
+
+  return setFieldValues(
+    { ...state, initialValues: { ...state.initialValues, ...initial } as TValues },
+    newValues,
+    ctx
+  );
+}
@@ -0,0 +1,35 @@
+import type { FormState } from "../types";
+
+import type { ActionContext } from "./createInitialState";
+import { createComputeContext } from "./createComputeContext";
+import { refreshFieldStates } from "../compute/computeFieldStates";
+import { extractErrors } from "../compute/extractors";
+
+/**
+ * Пересчитывает переводимые части fieldStates (label/placeholder/description/error)
+ * с translate из ctx — используется при смене translate (другая локаль)
+ *
+ * @param state - текущее состояние
+ * @param ctx - контекст (с новым translate!)
+ * @returns новое состояние (или то же, если тексты не изменились)
+ *
+ * @example
+ * const newState = refreshTranslations(state, { ...ctx, translate: tEn });
+ */
+export function refreshTranslations<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const computeCtx = createComputeContext(state, ctx);
+  const fields = refreshFieldStates(state.fields, Object.keys(state.fields), computeCtx);
+
+  if (fields === state.fields) {
+    return state;
+  }
+
+  return {
+    ...state,
+    fields,
+    errors: extractErrors(fields),
+  };
+}
@@ -1,11 +1,15 @@
 import type { FormState } from "../types";
-import { type ComputeContext } from "../compute/types";
 import type { ActionContext } from "./createInitialState";
+import { createComputeContext } from "./createComputeContext";
+import { runFormValidators } from "../validation/formValidation";
 import { computeAllFieldStates } from "../compute/computeFieldStates";
+import { extractDirtyFields, extractErrors } from "../compute/extractors";
 
 /**
  * Сбрасывает форму к начальному состоянию
  *
+ * Статус и история отправки (status, submitCount, lastSubmit*) не сбрасываются.
+ *
  * @param state - текущее состояние
  * @param newInitial - новые начальные значения (опционально)
  * @param ctx - контекст
@@ -28,23 +32,47 @@ export function resetForm<TValues extends Record<string, any>>(
   const values = { ...defaults, ...newInitial } as TValues;
 
   // Пересчитываем все fields (это init/reset)
-  const computeCtx: ComputeContext<TValues> = {
-    values,
-    config: ctx.config,
-    translate: ctx.translate,
-    locale: ctx.locale,
-    showErrors: false,
-  };
+  const formErrors = runFormValidators(ctx, values);
+  const computeCtx = createComputeContext(
+    {
+      values,
+      initialValues: values,
+      asyncErrors: {},
+      formErrors,
+      externalErrors: {},
+      validating: {},
+      touchedFields: {},
+    },
+    ctx
+  );
 
   const fields = computeAllFieldStates(computeCtx);
+  const errors = extractErrors(fields);
 
   return {
     values,
     fields,
-    errors: {},
-    submitting: false,
+    errors,
+    asyncErrors: {},
+    formErrors,
+    externalErrors: {},
+    validating: {},
+    // Жизненный цикл отправки сохраняется: reset вызывается и из afterSubmit
+    submitting: state.submitting,
+    status: state.status,
+    submitCount: state.submitCount,
+    lastSubmitError: state.lastSubmitError,
+    lastSubmitResult: state.lastSubmitResult,
+    submitStartedAt: state.submitStartedAt,
+    submitFinishedAt: state.submitFinishedAt,
+    // Сброс важнее черновика, который ещё загружается
+    hydrating: false,
     dirty: false,
     showErrors: false,
+    dirtyFields: extractDirtyFields(fields),
+    touchedFields: {},
+    visitedFields: {},
+    visibleErrors: {},
     initialValues: values,
     locale: ctx.locale,
   };
@@ -0,0 +1,24 @@
+import type { FormState } from "../types";
+import type { ActionContext } from "./createInitialState";
+import { applyDraftValues } from "./hydrateForm";
+
+/**
+ * Восстанавливает черновик, ожидающий решения (pendingDraft)
+ *
+ * Черновик становится начальным состоянием, как при restoreMode "auto".
+ * Значения, введённые до восстановления, перекрываются черновиком.
+ *
+ * @param state - текущее состояние
+ * @param ctx - контекст
+ * @returns новое состояние без pendingDraft (или то же, если черновика нет)
+ */
+export function restoreDraft<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  if (!state.pendingDraft) {
+    return state;
+  }
+
+  return { ...applyDraftValues(state, state.pendingDraft.values, ctx), pendingDraft: undefined };
+}
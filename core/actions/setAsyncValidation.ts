@@ -0,0 +1,66 @@
+import type { FormState, ValidationError } from "../types";
+import { refreshFieldStates } from "../compute/computeFieldStates";
+import { extractErrors } from "../compute/extractors";
+import { createComputeContext } from "./createComputeContext";
+import type { ActionContext } from "./createInitialState";
+
+/**
+ * Состояние асинхронной валидации одного поля
+ */
+export interface AsyncValidationResult {
+  /** Валидация ещё выполняется */
+  validating: boolean;
+  /** Ключ ошибки (undefined — ошибки нет) */
+  error?: ValidationError;
+}
+
+/**
+ * Записывает состояние validateAsync для поля и пересчитывает его fieldState
+ *
+ * @param state - текущее состояние
+ * @param key - путь к полю
+ * @param result - флаг validating и ошибка
+ * @param ctx - контекст
+ * @returns новое состояние (или то же, если ничего не изменилось)
+ *
+ * @example
+ * // Старт проверки — прежняя ошибка сбрасывается
+ * setAsyncValidation(state, "email", { validating: true }, ctx);
+ * // Результат
+ * setAsyncValidation(state, "email", { validating: false, error: "validation.emailTaken" }, ctx);
+ */
+export function setAsyncValidation<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string,
+  result: AsyncValidationResult,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const { validating, error } = result;
+
+  if (!!state.validating[key] === validating && state.asyncErrors[key] === error) {
+    return state;
+  }
+
+  const asyncErrors = { ...state.asyncErrors };
+  if (error) {
+    asyncErrors[key] = error;
+  } else {
+    delete asyncErrors[key];
+  }
+
+  const validatingMap = { ...state.validating };
+  if (validating) {
+    validatingMap[key] = true;
+  } else {
+    delete validatingMap[key];
+  }
+
+  const nextState = { ...state, asyncErrors, validating: validatingMap };
+  const fields = refreshFieldStates(state.fields, [key], createComputeContext(nextState, ctx));
+
+  return {
+    ...nextState,
+    fields,
+    errors: fields === state.fields ? state.errors : extractErrors(fields),
+  };
+}
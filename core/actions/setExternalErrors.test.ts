@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { setExternalErrors } from "./setExternalErrors";
+import { clearExternalErrors } from "./clearExternalErrors";
+import { setFieldValue } from "./setFieldValue";
+import { isFormValid } from "./isFormValid";
+import { createTestContext, createTestState } from "./testUtils";
+import type { FormConfig } from "../types";
+import { FORM_ERROR_KEY } from "../validation/formValidation";
+
+type SignupValues = {
+  email: string;
+  passport: { number: string };
+};
+
+const config: FormConfig<SignupValues> = {
+  email: { value: "" },
+  passport: { nested: true, number: { value: "" } },
+};
+
+const ctx = createTestContext(config, {
+  translate: (key, params) => (params ? `${key}:${JSON.stringify(params)}` : key),
+});
+
+// Действия — чистые функции, общее начальное состояние не изменяется
+const initialState = createTestState(
+  { email: "john@mail.com", passport: { number: "123" } },
+  ctx
+);
+
+describe("external errors", () => {
+  it("should put server errors on fields separately from validator errors", () => {
+    const state = setExternalErrors(
+      initialState,
+      { email: "server.email.taken", "passport.number": { key: "server.min", params: { min: 6 } } },
+      ctx
+    );
+
+    expect(state.errors).toEqual({
+      email: "server.email.taken",
+      "passport.number": "server.min",
+    });
+    expect(state.fields["passport.number"].error).toBe('server.min:{"min":6}');
+    expect(isFormValid(state)).toBe(false);
+  });
+
+  it("should make form invalid for external errors without a field", () => {
+    const state = initialState;
+    expect(isFormValid(state)).toBe(true);
+
+    const withFormError = setExternalErrors(state, { [FORM_ERROR_KEY]: "server.failed" }, ctx);
+    expect(isFormValid(withFormError)).toBe(false);
+    expect(isFormValid(setExternalErrors(state, { "billing.vat": "server.vat" }, ctx))).toBe(false);
+    expect(isFormValid(clearExternalErrors(withFormError, undefined, ctx))).toBe(true);
+  });
+
+  it("should clear the error when the field is edited", () => {
+    const withErrors = setExternalErrors(
+      initialState,
+      { email: "server.email.taken", passport: "server.passport.invalid" },
+      ctx
+    );
+    const state = setFieldValue(withErrors, "passport.number", "1234567", ctx);
+
+    expect(state.externalErrors).toEqual({ email: "server.email.taken" });
+    expect(state.fields.passport.error).toBeUndefined();
+    expect(clearExternalErrors(state, undefined, ctx).errors).toEqual({});
+  });
+});
@@ -0,0 +1,63 @@
+import type { FormState, ValidationError } from "../types";
+import { refreshFieldStates } from "../compute/computeFieldStates";
+import { extractErrors } from "../compute/extractors";
+import { createComputeContext } from "./createComputeContext";
+import type { ActionContext } from "./createInitialState";
+import { getChangedErrorKeys } from "../validation/formValidation";
+
+/**
+ * Записывает внешние ошибки (например, ответ сервера 422)
+ *
+ * Хранятся отдельно от ошибок валидаторов (state.externalErrors)
+ * и сбрасываются, когда пользователь меняет поле.
+ * undefined в errors удаляет внешнюю ошибку пути.
+ *
+ * @param state - текущее состояние
+ * @param errors - ошибки по путям полей (FORM_ERROR_KEY — ошибка всей формы)
+ * @param ctx - контекст
+ * @returns новое состояние (или то же, если ничего не изменилось)
+ *
+ * @example
+ * // 422 { field: "email", code: "taken" }
+ * setExternalErrors(state, { email: "server.email.taken" }, ctx);
+ */
+export function setExternalErrors<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  errors: Record<string, ValidationError | undefined>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const externalErrors = { ...state.externalErrors };
+
+  for (const [key, error] of Object.entries(errors)) {
+    if (error) {
+      externalErrors[key] = error;
+    } else {
+      delete externalErrors[key];
+    }
+  }
+
+  return applyExternalErrors(state, externalErrors, ctx);
+}
+
+/**
+ * Заменяет externalErrors и пересчитывает поля, у которых изменилась ошибка
+ */
+export function applyExternalErrors<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  externalErrors: Record<string, ValidationError>,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const changedKeys = getChangedErrorKeys(state.externalErrors, externalErrors);
+  if (changedKeys.length === 0) {
+    return state;
+  }
+
+  const nextState = { ...state, externalErrors };
+  const fields = refreshFieldStates(state.fields, changedKeys, createComputeContext(nextState, ctx));
+
+  return {
+    ...nextState,
+    fields,
+    errors: fields === state.fields ? state.errors : extractErrors(fields),
+  };
+}
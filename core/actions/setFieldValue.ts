@@ -1,8 +1,10 @@
 import type { FormState } from "../types";
-import { recomputeFieldStates } from "../compute/computeFieldStates";
-import { extractErrors } from "../compute/extractors";
+import { recomputeFieldStates, refreshFieldStates } from "../compute/computeFieldStates";
+import { extractDirtyFields, extractErrors } from "../compute/extractors";
 import { computeDirty } from "./computeDirty";
 import { createComputeContext } from "./createComputeContext";
+import { getChangedErrorKeys, runFormValidators } from "../validation/formValidation";
+import { omitExternalErrors } from "./clearExternalErrors";
 import type { ActionContext } from "./createInitialState";
 import { setFieldByPath } from "../../utils/helpers";
 import { parseFieldKey, getFieldConfigByPath } from "../../utils/pathUtils";
@@ -43,12 +45,20 @@ export function setFieldValue<TValues extends Record<string, any>>(
   const newValues = setFieldByPath(state.values, path, processedValue) as TValues;
 
   // Пересчитываем fields для зависимых полей
+  const formErrors = runFormValidators(ctx, newValues, state.formErrors);
+  // Внешние ошибки поля сбрасываются при его изменении
+  const externalErrors = omitExternalErrors(state.externalErrors, [key]);
   const computeCtx = createComputeContext(
-    { ...state, values: newValues },
+    { ...state, values: newValues, formErrors, externalErrors },
     ctx
   );
 
-  const newFields = recomputeFieldStates(state.fields, key, computeCtx);
+  // Зависимые поля + поля, у которых изменилась ошибка уровня формы
+  const newFields = refreshFieldStates(
+    recomputeFieldStates(state.fields, key, computeCtx),
+    getChangedErrorKeys(state.formErrors, formErrors),
+    computeCtx
+  );
 
   // Извлекаем errors из fields
   const newErrors = extractErrors(newFields);
@@ -59,8 +69,11 @@ export function setFieldValue<TValues extends Record<string, any>>(
   return {
     ...state,
     values: newValues,
+    formErrors,
+    externalErrors,
     fields: newFields,
     errors: newErrors,
+    dirtyFields: extractDirtyFields(newFields),
     dirty: newDirty,
   };
 }
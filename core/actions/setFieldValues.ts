@@ -1,10 +1,12 @@
 import type { FormState } from "../types";
 
-import { type ComputeContext } from "../compute/types";
 import { computeDirty } from "./computeDirty";
+import { createComputeContext } from "./createComputeContext";
+import { runFormValidators } from "../validation/formValidation";
+import { omitExternalErrors } from "./clearExternalErrors";
 import type { ActionContext } from "./createInitialState";
 import { computeAllFieldStates } from "../compute/computeFieldStates";
-import { extractErrors } from "../compute/extractors";
+import { extractDirtyFields, extractErrors } from "../compute/extractors";
 import { getFieldConfigByPath } from "../../utils/pathUtils";
 
 /**
@@ -48,13 +50,13 @@ export function setFieldValues<TValues extends Record<string, any>>(
   // Пересчитываем fields
   // Для batch update пересчитываем все поля с undefined dependencies
   // или те, что зависят от любого из изменённых полей
-  const computeCtx: ComputeContext<TValues> = {
-    values: newValues as TValues,
-    config: ctx.config,
-    translate: ctx.translate,
-    locale: ctx.locale,
-    showErrors: state.showErrors,
-  };
+  const formErrors = runFormValidators(ctx, newValues as TValues, state.formErrors);
+  // Внешние ошибки изменённых полей сбрасываются
+  const externalErrors = omitExternalErrors(state.externalErrors, changedKeys as string[]);
+  const computeCtx = createComputeContext(
+    { ...state, values: newValues as TValues, formErrors, externalErrors },
+    ctx
+  );
 
   // Простой подход: пересчитываем все поля
   // Оптимизация: можно сделать более умный пересчёт
@@ -65,8 +67,11 @@ export function setFieldValues<TValues extends Record<string, any>>(
   return {
     ...state,
     values: newValues as TValues,
+    formErrors,
+    externalErrors,
     fields: newFields,
     errors: newErrors,
+    dirtyFields: extractDirtyFields(newFields),
     dirty: newDirty,
   };
 }
@@ -1,12 +1,11 @@
 import type { FormState } from "../types";
 
-import { type ComputeContext } from "../compute/types";
 import type { ActionContext } from "./createInitialState";
-import { computeAllFieldStates } from "../compute/computeFieldStates";
-import { extractErrors } from "../compute/extractors";
+import { refreshTranslations } from "./refreshTranslations";
 
 /**
  * Меняет локаль формы — пересчитывает все label/placeholder/description
+ * и тексты ошибок (ключи ошибок в state.errors не меняются)
  *
  * @param state - текущее состояние
  * @param newLocale - новая локаль
@@ -27,21 +26,8 @@ export function setFormLocale<TValues extends Record<string, any>>(
   }
 
   // Пересчитываем все fields с новой локалью
-  const computeCtx: ComputeContext<TValues> = {
-    values: state.values,
-    config: ctx.config,
-    translate: ctx.translate,
-    locale: newLocale,
-    showErrors: state.showErrors,
-  };
-
-  const fields = computeAllFieldStates(computeCtx);
-  const errors = extractErrors(fields);
-
   return {
-    ...state,
-    fields,
-    errors,
+    ...refreshTranslations(state, { ...ctx, locale: newLocale }),
     locale: newLocale,
   };
 }
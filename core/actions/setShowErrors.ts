@@ -0,0 +1,25 @@
+import type { FormState } from "../types";
+
+/**
+ * Включает или выключает показ ошибок всей формы (инспектор, отладка)
+ *
+ * Как и enableShowErrors, меняет только флаг отображения —
+ * ошибки, показанные по validationMode (visibleErrors), остаются видимыми.
+ *
+ * @param state - текущее состояние
+ * @param showErrors - новое значение флага
+ * @returns новое состояние (или то же, если флаг не изменился)
+ */
+export function setShowErrors<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  showErrors: boolean
+): FormState<TValues> {
+  if (state.showErrors === showErrors) {
+    return state;
+  }
+
+  return {
+    ...state,
+    showErrors,
+  };
+}
@@ -0,0 +1,72 @@
+import type { FormState, SubmitStatus } from "../types";
+
+/**
+ * Детали перехода статуса отправки
+ */
+export interface SubmitStatusDetails {
+  /** Время перехода (Date.now()) */
+  at?: number;
+  /** Ошибка (для "failed") */
+  error?: unknown;
+  /** Результат onSubmit (для "succeeded") */
+  result?: unknown;
+}
+
+/**
+ * Переводит форму в следующий статус отправки
+ *
+ * idle → validating → submitting → succeeded | failed
+ *                   ↘ idle (форма невалидна)
+ *
+ * - validating — новая попытка: submitCount + 1, прошлые ошибка и результат сбрасываются
+ * - succeeded / failed — фиксируют result / error и время окончания
+ *
+ * @param state - текущее состояние
+ * @param status - новый статус
+ * @param details - время, ошибка, результат
+ * @returns новое состояние
+ *
+ * @example
+ * store.setState((prev) => setSubmitStatus(prev, "validating", { at: Date.now() }));
+ * store.setState((prev) => setSubmitStatus(prev, "failed", { error, at: Date.now() }));
+ */
+export function setSubmitStatus<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  status: SubmitStatus,
+  details: SubmitStatusDetails = {}
+): FormState<TValues> {
+  const next: FormState<TValues> = {
+    ...state,
+    status,
+    submitting: status === "submitting",
+  };
+
+  switch (status) {
+    case "validating":
+      return {
+        ...next,
+        submitCount: state.submitCount + 1,
+        lastSubmitError: undefined,
+        lastSubmitResult: undefined,
+        submitStartedAt: details.at,
+        submitFinishedAt: undefined,
+      };
+
+    case "succeeded":
+      return {
+        ...next,
+        lastSubmitResult: details.result,
+        submitFinishedAt: details.at,
+      };
+
+    case "failed":
+      return {
+        ...next,
+        lastSubmitError: details.error,
+        submitFinishedAt: details.at,
+      };
+
+    default:
+      return state.status === status ? state : next;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Общие фабрики для тестов действий и валидации
+ */
+
+import type { FormConfig, FormState } from "../types";
+import { createInitialState, type ActionContext } from "./createInitialState";
+
+/**
+ * Контекст действий для тестов: translate возвращает ключ, locale — "en"
+ *
+ * @param config - конфиг формы
+ * @param overrides - остальные поля ActionContext (validationMode, schema, ...)
+ *
+ * @example
+ * const ctx = createTestContext(config, { validationMode: "onTouched" });
+ */
+export function createTestContext<TValues extends Record<string, any>>(
+  config: FormConfig<TValues>,
+  overrides: Partial<ActionContext<TValues>> = {}
+): ActionContext<TValues> {
+  return { config, translate: (key) => key, locale: "en", ...overrides };
+}
+
+/**
+ * Начальное состояние формы по values (без initial)
+ *
+ * @example
+ * const state = createTestState({ email: "" }, ctx);
+ */
+export function createTestState<TValues extends Record<string, any>>(
+  values: TValues,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  return createInitialState(values, undefined, ctx);
+}
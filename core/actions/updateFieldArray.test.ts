@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { updateFieldArray } from "./updateFieldArray";
+import { setFieldValue } from "./setFieldValue";
+import { applyFieldInteraction } from "./applyFieldInteraction";
+import { setAsyncValidation } from "./setAsyncValidation";
+import { createTestContext, createTestState } from "./testUtils";
+import type { FormConfig } from "../types";
+
+type OrderValues = {
+  title: string;
+  items: Array<{ name: string; price: number }>;
+};
+
+const config: FormConfig<OrderValues> = {
+  title: { value: "" },
+  items: {
+    array: true,
+    item: {
+      nested: true,
+      name: {
+        value: "",
+        validate: (value: string) => (!value ? "validation.required" : undefined),
+      },
+      price: { value: 0 },
+    },
+  },
+};
+
+const ctx = createTestContext(config);
+
+const orderValues: OrderValues = {
+  title: "Order",
+  items: [
+    { name: "Apple", price: 1 },
+    { name: "Pear", price: 2 },
+  ],
+};
+
+// Действия — чистые функции, общее начальное состояние не изменяется
+const initialState = createTestState(orderValues, ctx);
+
+describe("updateFieldArray", () => {
+  it("should compute indexed field states for array items", () => {
+    expect(Object.keys(initialState.fields)).toEqual([
+      "title",
+      "items",
+      "items.0",
+      "items.0.name",
+      "items.0.price",
+      "items.1",
+      "items.1.name",
+      "items.1.price",
+    ]);
+    expect(initialState.fields["items.1.price"].value).toBe(2);
+  });
+
+  it("should append item and create its field states", () => {
+    const state = updateFieldArray(
+      initialState,
+      "items",
+      { type: "append", value: { name: "Plum", price: 3 } },
+      ctx
+    );
+
+    expect(state.values.items).toHaveLength(3);
+    expect(state.fields["items.2.name"].value).toBe("Plum");
+    expect(state.dirty).toBe(true);
+  });
+
+  it("should shift field states after remove", () => {
+    const state = updateFieldArray(initialState, "items", { type: "remove", index: 0 }, ctx);
+
+    expect(state.values.items).toEqual([{ name: "Pear", price: 2 }]);
+    expect(state.fields["items.0.name"].value).toBe("Pear");
+    expect(state.fields["items.1"]).toBeUndefined();
+    expect(state.fields["items.1.name"]).toBeUndefined();
+  });
+
+  it("should keep untouched fields by reference", () => {
+    const swap = { type: "swap", indexA: 0, indexB: 1 } as const;
+    const state = updateFieldArray(initialState, "items", swap, ctx);
+
+    expect(state.fields["items.0.name"].value).toBe("Pear");
+    expect(state.fields["items.1.name"].value).toBe("Apple");
+    expect(state.fields.title).toBe(initialState.fields.title);
+  });
+
+  it("should not be dirty after moving item back", () => {
+    const moved = updateFieldArray(initialState, "items", { type: "move", from: 0, to: 1 }, ctx);
+    const restored = updateFieldArray(moved, "items", { type: "move", from: 1, to: 0 }, ctx);
+
+    expect(moved.dirty).toBe(true);
+    expect(restored.dirty).toBe(false);
+  });
+
+  it("should return the same state for out of range index", () => {
+    const state = initialState;
+
+    expect(updateFieldArray(state, "items", { type: "remove", index: 5 }, ctx)).toBe(state);
+    expect(updateFieldArray(state, "items", { type: "move", from: 0, to: 9 }, ctx)).toBe(state);
+  });
+
+  it("should move touched and visible errors together with items", () => {
+    const touchedCtx = createTestContext(config, { validationMode: "onTouched" });
+    const blurred = applyFieldInteraction(initialState, "items.1.name", "blur", touchedCtx);
+    const state = updateFieldArray(blurred, "items", { type: "remove", index: 0 }, ctx);
+
+    expect(blurred.visibleErrors).toEqual({ "items.1.name": true });
+    expect(state.touchedFields).toEqual({ "items.0.name": true });
+    expect(state.visibleErrors).toEqual({ "items.0.name": true });
+    expect(state.fields["items.0.name"].isTouched).toBe(true);
+    expect(state.fields["items.1"]).toBeUndefined();
+  });
+
+  it("should move async validation state together with items", () => {
+    const checked = setAsyncValidation(
+      initialState,
+      "items.1.name",
+      { validating: false, error: "validation.nameTaken" },
+      ctx
+    );
+    const pending = setAsyncValidation(checked, "items.0.name", { validating: true }, ctx);
+    const state = updateFieldArray(pending, "items", { type: "swap", indexA: 0, indexB: 1 }, ctx);
+
+    expect(state.asyncErrors).toEqual({ "items.0.name": "validation.nameTaken" });
+    expect(state.validating).toEqual({ "items.1.name": true });
+    expect(state.fields["items.0.name"].errorKey).toBe("validation.nameTaken");
+    expect(state.fields["items.1.name"].errorKey).toBeUndefined();
+  });
+
+  it("should mark changed path and its ancestors as dirty", () => {
+    const changed = setFieldValue(initialState, "items.1.price", 5, ctx);
+    const restored = setFieldValue(changed, "items.1.price", 2, ctx);
+
+    expect(changed.dirtyFields).toEqual({
+      items: true,
+      "items.1": true,
+      "items.1.price": true,
+    });
+    expect(changed.fields["items.0.price"].isDirty).toBe(false);
+    expect(restored.dirtyFields).toEqual({});
+    expect(restored.dirty).toBe(false);
+  });
+
+  it("should keep arrays when setting an indexed value", () => {
+    const state = setFieldValue(initialState, "items.1.price", 5, ctx);
+
+    expect(Array.isArray(state.values.items)).toBe(true);
+    expect(state.values.items[1]).toEqual({ name: "Pear", price: 5 });
+    expect(state.fields["items.1.price"].value).toBe(5);
+    expect(state.fields["items.1"].value).toEqual({ name: "Pear", price: 5 });
+  });
+});
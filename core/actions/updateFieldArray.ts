@@ -0,0 +1,95 @@
+import type { FieldArrayOperation, FormState } from "../types";
+import { recomputeFieldStates, refreshFieldStates } from "../compute/computeFieldStates";
+import { extractDirtyFields, extractErrors } from "../compute/extractors";
+import { computeDirty } from "./computeDirty";
+import { createComputeContext } from "./createComputeContext";
+import { getChangedErrorKeys, runFormValidators } from "../validation/formValidation";
+import { omitExternalErrors } from "./clearExternalErrors";
+import type { ActionContext } from "./createInitialState";
+import { setFieldByPath } from "../../utils/helpers";
+import { parseFieldKey } from "../../utils/pathUtils";
+import { applyFieldArrayOperation, remapFieldArrayKeys } from "../../utils/fieldArray";
+
+/**
+ * Применяет операцию к полю-массиву (append, insert, remove, move, swap)
+ *
+ * Индексные ключи fields пересобираются по новому массиву:
+ * элементы, сменившие индекс, пересчитываются, удалённые — исчезают.
+ * touchedFields / visitedFields / visibleErrors и состояние validateAsync
+ * (asyncErrors / validating) переносятся вслед за элементами.
+ *
+ * @param state - текущее состояние
+ * @param key - путь к массиву ("items" или "order.items")
+ * @param operation - операция над массивом
+ * @param ctx - контекст
+ * @returns новое состояние (или то же, если операция ничего не изменила)
+ *
+ * @example
+ * const newState = updateFieldArray(state, "items", { type: "remove", index: 0 }, ctx);
+ */
+export function updateFieldArray<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string,
+  operation: FieldArrayOperation,
+  ctx: ActionContext<TValues>
+): FormState<TValues> {
+  const path = parseFieldKey(key);
+  const currentValue = path.reduce((obj: any, k) => obj?.[k], state.values);
+  const items: readonly any[] = Array.isArray(currentValue) ? currentValue : [];
+
+  const nextItems = applyFieldArrayOperation(items, operation);
+
+  if (nextItems === currentValue) {
+    return state;
+  }
+
+  const newValues = setFieldByPath(state.values, path, nextItems) as TValues;
+
+  // Пересчитываем fields: сам массив и все его элементы
+  const formErrors = runFormValidators(ctx, newValues, state.formErrors);
+  // Внешние ошибки поля сбрасываются при его изменении
+  const externalErrors = omitExternalErrors(state.externalErrors, [key]);
+  // Записи по индексным ключам — до пересчёта fields (isTouched, ошибки validateAsync)
+  const remap = <T>(map: Record<string, T>) =>
+    remapFieldArrayKeys(map, key, items.length, operation);
+  const touchedFields = remap(state.touchedFields);
+  const asyncErrors = remap(state.asyncErrors);
+  const validating = remap(state.validating);
+  const computeCtx = createComputeContext(
+    {
+      ...state,
+      values: newValues,
+      formErrors,
+      externalErrors,
+      touchedFields,
+      asyncErrors,
+      validating,
+    },
+    ctx
+  );
+
+  // Зависимые поля + поля, у которых изменилась ошибка уровня формы
+  const newFields = refreshFieldStates(
+    recomputeFieldStates(state.fields, key, computeCtx),
+    getChangedErrorKeys(state.formErrors, formErrors),
+    computeCtx
+  );
+  const newErrors = extractErrors(newFields);
+  const newDirty = computeDirty(newValues, state.initialValues);
+
+  return {
+    ...state,
+    values: newValues,
+    formErrors,
+    externalErrors,
+    fields: newFields,
+    errors: newErrors,
+    dirtyFields: extractDirtyFields(newFields),
+    dirty: newDirty,
+    touchedFields,
+    visitedFields: remap(state.visitedFields),
+    visibleErrors: remap(state.visibleErrors),
+    asyncErrors,
+    validating,
+  };
+}
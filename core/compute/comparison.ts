@@ -34,6 +34,10 @@ export function isFieldStateEqual<TValue>(
     a.label === b.label &&
     a.placeholder === b.placeholder &&
     a.description === b.description &&
-    a.error === b.error
+    a.error === b.error &&
+    a.errorKey === b.errorKey &&
+    a.isDirty === b.isDirty &&
+    a.isTouched === b.isTouched &&
+    a.isValidating === b.isValidating
   );
 }
@@ -6,7 +6,10 @@ import type { FieldConfig, ComputedFieldState } from "../types";
 import type { ComputeContext } from "./types";
 import { computeBooleanProp, computeStringProp } from "./computeProperties";
 import { computeFieldValue } from "./computeFieldValue";
+import { computeRequiredError } from "./required";
+import { translateError } from "./translateError";
 import { getFieldConfigByPath } from "../../utils/pathUtils";
+import { isDeepEqual } from "../../utils/helpers";
 
 /**
  * Вычисляет полное состояние одного поля
@@ -31,7 +34,18 @@ export function computeFieldState<TValues extends Record<string, any>>(
   ctx: ComputeContext<TValues>,
   fieldConfig?: FieldConfig<any, TValues>
 ): ComputedFieldState<any> {
-  const { values, config, translate, showErrors } = ctx;
+  const {
+    values,
+    initialValues,
+    config,
+    translate,
+    asyncErrors,
+    formErrors,
+    externalErrors,
+    validating,
+    touchedFields,
+    requiredError,
+  } = ctx;
   const cfg = fieldConfig ?? getFieldConfigByPath(config, key) ?? ({} as FieldConfig<any, TValues>);
 
   // Вычисляем value (поддержка computed values и вложенных путей)
@@ -48,11 +62,24 @@ export function computeFieldState<TValues extends Record<string, any>>(
   const placeholder = computeStringProp(cfg.placeholder, translate);
   const description = computeStringProp(cfg.description, translate);
 
-  // Вычисляем ошибку (только если showErrors=true)
-  let error: string | undefined;
-  if (showErrors && cfg.validate) {
-    error = cfg.validate(value, values);
-  }
+  // Вычисляем ошибку всегда — показ регулируется отдельно (FormState.showErrors)
+  // Порядок: внешняя (setError) → required → validate → validate/schema формы → validateAsync
+  const validationError =
+    externalErrors[key] ??
+    computeRequiredError(value, cfg, { isVisible, isDisabled, isRequired }, requiredError) ??
+    cfg.validate?.(value, values) ??
+    formErrors[key] ??
+    asyncErrors[key];
+
+  // Ключ → текст через translate (пересчитывается при смене локали)
+  const { error, errorKey } = translateError(validationError, translate);
+
+  // Сравниваем исходные values по пути (для родителя — всё поддерево)
+  const path = key.split(".");
+  const isDirty = !isDeepEqual(
+    path.reduce((obj: any, k) => obj?.[k], values),
+    path.reduce((obj: any, k) => obj?.[k], initialValues)
+  );
 
   return {
     value,
@@ -64,5 +91,9 @@ export function computeFieldState<TValues extends Record<string, any>>(
     placeholder,
     description,
     error,
+    errorKey,
+    isDirty,
+    isTouched: !!touchedFields[key],
+    isValidating: !!validating[key],
   };
 }
@@ -5,27 +5,30 @@
  * состояний с ключами вида "passport", "passport.number" и т.д.
  */
 
-import type { FieldStates } from "../types";
+import type { FieldConfig, FieldStates } from "../types";
 import type { ComputeContext } from "./types";
 import { computeFieldState } from "./computeFieldState";
 import { shouldRecalculateField } from "./shouldRecalculate";
 import { isFieldStateEqual } from "./comparison";
-import { isReservedFieldConfigKey, getFieldConfigByPath } from "../../utils/pathUtils";
+import { isReservedFieldConfigKey, parseFieldKey } from "../../utils/pathUtils";
 
 /**
- * Рекурсивно собирает fieldStates из вложенного конфига
+ * Рекурсивно обходит вложенный конфиг и вызывает visit для каждого поля
+ * 
+ * Для полей-массивов (array: true) обходит элементы текущего значения
+ * по шаблону item: "items", "items.0", "items.0.price", ...
  * 
  * @param configLevel - Текущий уровень конфига
  * @param prefix - Префикс пути (для формирования "passport.number")
- * @param fields - Словарь для накопления результатов
- * @param ctx - Контекст вычисления
+ * @param values - Текущие значения (нужны для длины массивов)
+ * @param visit - Колбэк для каждого поля
  * @param insideNested - Находимся ли мы внутри nested поля (нужно пропускать reserved keys)
  */
-function collectFieldStates<TValues extends Record<string, any>>(
+function walkFieldConfigs<TValues extends Record<string, any>>(
   configLevel: Record<string, any>,
   prefix: string,
-  fields: Record<string, any>,
-  ctx: ComputeContext<TValues>,
+  values: TValues,
+  visit: (fullKey: string, fieldConfig: FieldConfig<any, TValues>) => void,
   insideNested: boolean
 ): void {
   for (const key of Object.keys(configLevel)) {
@@ -37,12 +40,34 @@ function collectFieldStates<TValues extends Record<string, any>>(
 
     const fullKey = prefix ? `${prefix}.${key}` : key;
 
-    // Вычисляем состояние этого поля (включая nested-родителя)
-    fields[fullKey] = computeFieldState(fullKey, ctx, fieldConfig);
+    visitField(fullKey, fieldConfig, values, visit);
+  }
+}
+
+/**
+ * Посещает одно поле и его потомков (nested-поля и элементы массива)
+ */
+function visitField<TValues extends Record<string, any>>(
+  fullKey: string,
+  fieldConfig: FieldConfig<any, TValues>,
+  values: TValues,
+  visit: (fullKey: string, fieldConfig: FieldConfig<any, TValues>) => void
+): void {
+  // Само поле (включая nested-родителя и массив)
+  visit(fullKey, fieldConfig);
 
-    // Если поле nested — рекурсивно обрабатываем дочерние поля
-    if (fieldConfig.nested) {
-      collectFieldStates(fieldConfig, fullKey, fields, ctx, true);
+  // Если поле nested — рекурсивно обрабатываем дочерние поля
+  if (fieldConfig.nested) {
+    walkFieldConfigs(fieldConfig, fullKey, values, visit, true);
+  }
+
+  // Если поле-массив — обходим элементы по шаблону
+  if (fieldConfig.array && fieldConfig.item) {
+    const items = parseFieldKey(fullKey).reduce((obj: any, k) => obj?.[k], values);
+    if (!Array.isArray(items)) return;
+
+    for (let index = 0; index < items.length; index++) {
+      visitField(`${fullKey}.${index}`, fieldConfig.item, values, visit);
     }
   }
 }
@@ -53,6 +78,7 @@ function collectFieldStates<TValues extends Record<string, any>>(
  * Рекурсивно обходит вложенный конфиг:
  * - passport: { nested: true, number: {...} }
  * - Генерирует: { "passport": {...}, "passport.number": {...} }
+ * - items: { array: true, item: {...} } → { "items": {...}, "items.0": {...}, ... }
  *
  * @param ctx - Контекст вычисления
  * @returns Плоский словарь вычисленных состояний всех полей
@@ -63,7 +89,8 @@ function collectFieldStates<TValues extends Record<string, any>>(
  *   config: { passport: { nested: true, number: { value: "" } } },
  *   translate: t,
  *   locale: 'ru',
- *   showErrors: false,
+ *   asyncErrors: {},
+ *   validating: {},
  * });
  * // → { "passport": { isVisible: true, ... }, "passport.number": { value: "123", ... } }
  */
@@ -72,7 +99,9 @@ export function computeAllFieldStates<TValues extends Record<string, any>>(
 ): FieldStates<TValues> {
   const fields: Record<string, any> = {};
 
-  collectFieldStates(ctx.config as Record<string, any>, "", fields, ctx, false);
+  walkFieldConfigs(ctx.config as Record<string, any>, "", ctx.values, (key, fieldConfig) => {
+    fields[key] = computeFieldState(key, ctx, fieldConfig);
+  }, false);
 
   return fields as FieldStates<TValues>;
 }
@@ -81,8 +110,9 @@ export function computeAllFieldStates<TValues extends Record<string, any>>(
  * Пересчитывает fieldStates после изменения одного поля
  *
  * Оптимизированная версия — пересчитывает только зависимые поля.
- * Итерирует по существующим ключам в prevFields (плоские ключи).
- * Для каждого ключа находит конфиг через getFieldConfigByPath.
+ * Обходит конфиг с новыми values, поэтому набор ключей может измениться
+ * (добавление/удаление элементов массива). Новые ключи вычисляются всегда,
+ * удалённые — выпадают из результата.
  *
  * @param prevFields - Предыдущие fieldStates
  * @param changedField - Поле, которое изменилось (может быть "passport.number")
@@ -96,26 +126,72 @@ export function recomputeFieldStates<TValues extends Record<string, any>>(
 ): FieldStates<TValues> {
   const newFields: Record<string, any> = {};
   let hasChanges = false;
+  let count = 0;
 
-  for (const key of Object.keys(prevFields)) {
-    const fieldConfig = getFieldConfigByPath(ctx.config, key);
+  walkFieldConfigs(ctx.config as Record<string, any>, "", ctx.values, (key, fieldConfig) => {
+    const prevState = prevFields[key];
+    count++;
+
+    // Новое поле (например, добавленный элемент массива)
+    if (!prevState) {
+      newFields[key] = computeFieldState(key, ctx, fieldConfig);
+      hasChanges = true;
+      return;
+    }
 
     // Проверяем, нужно ли пересчитывать это поле
     if (shouldRecalculateField(key, changedField, fieldConfig)) {
       const newState = computeFieldState(key, ctx, fieldConfig);
 
       // Проверяем, изменилось ли состояние
-      if (isFieldStateEqual(prevFields[key], newState)) {
-        newFields[key] = prevFields[key];
+      if (isFieldStateEqual(prevState, newState)) {
+        newFields[key] = prevState;
       } else {
         newFields[key] = newState;
         hasChanges = true;
       }
     } else {
-      newFields[key] = prevFields[key];
+      newFields[key] = prevState;
     }
+  }, false);
+
+  // Часть полей исчезла (удалённые элементы массива)
+  if (count !== Object.keys(prevFields).length) {
+    hasChanges = true;
   }
 
   // Если ничего не изменилось, возвращаем старый объект fields
   return hasChanges ? newFields : prevFields;
 }
+
+/**
+ * Пересчитывает fieldStates только для указанных ключей
+ *
+ * Используется, когда изменились не values, а внешние для поля данные
+ * (например, результат validateAsync). Ключи, которых нет в prevFields, пропускаются.
+ *
+ * @param prevFields - Предыдущие fieldStates
+ * @param keys - Ключи полей для пересчёта
+ * @param ctx - Контекст вычисления
+ * @returns Новые fieldStates (или prevFields, если ничего не изменилось)
+ */
+export function refreshFieldStates<TValues extends Record<string, any>>(
+  prevFields: FieldStates<TValues>,
+  keys: readonly string[],
+  ctx: ComputeContext<TValues>
+): FieldStates<TValues> {
+  let newFields: Record<string, any> | null = null;
+
+  for (const key of keys) {
+    const prevState = prevFields[key];
+    if (!prevState) continue;
+
+    const newState = computeFieldState(key, ctx);
+    if (isFieldStateEqual(prevState, newState)) continue;
+
+    if (!newFields) newFields = { ...prevFields };
+    newFields[key] = newState;
+  }
+
+  return newFields ?? prevFields;
+}
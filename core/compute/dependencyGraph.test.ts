@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { getDependencyGraph } from "./dependencyGraph";
+import type { FormConfig } from "../types";
+
+type PaymentValues = { paymentType: string; cardNumber: string; comment: string };
+
+describe("getDependencyGraph", () => {
+  it("should split fields by dependencies kind", () => {
+    const config: FormConfig<PaymentValues> = {
+      paymentType: { value: "card" },
+      cardNumber: { value: "", dependencies: ["paymentType"] },
+      comment: { value: "", dependencies: [] },
+    };
+
+    expect(getDependencyGraph(config, ["paymentType", "cardNumber", "comment"])).toEqual({
+      edges: [{ from: "paymentType", to: "cardNumber" }],
+      dependsOnAny: ["paymentType"],
+      isolated: ["comment"],
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Граф зависимостей полей (FieldConfig.dependencies) — для инспектора и отладки
+ */
+
+import type { FormConfig } from "../types";
+import { getFieldConfigByPath } from "../../utils/pathUtils";
+
+/**
+ * Ребро графа: изменение from пересчитывает to
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyGraph {
+  /** Явные зависимости из dependencies */
+  edges: DependencyEdge[];
+  /** Поля без dependencies — пересчитываются при изменении любого поля */
+  dependsOnAny: string[];
+  /** Поля с dependencies: [] — только при изменении себя и init/reset */
+  isolated: string[];
+}
+
+/**
+ * Строит граф зависимостей для полей формы
+ *
+ * @param config - конфигурация формы
+ * @param fieldKeys - ключи полей (обычно Object.keys(state.fields))
+ *
+ * @example
+ * getDependencyGraph(config, ["paymentType", "cardNumber"]);
+ * // { edges: [{ from: "paymentType", to: "cardNumber" }], dependsOnAny: ["paymentType"], isolated: [] }
+ */
+export function getDependencyGraph<TValues extends Record<string, any>>(
+  config: FormConfig<TValues>,
+  fieldKeys: string[]
+): DependencyGraph {
+  const graph: DependencyGraph = { edges: [], dependsOnAny: [], isolated: [] };
+
+  for (const key of fieldKeys) {
+    const dependencies = getFieldConfigByPath(config, key)?.dependencies;
+
+    if (dependencies === undefined) {
+      graph.dependsOnAny.push(key);
+    } else if (dependencies.length === 0) {
+      graph.isolated.push(key);
+    } else {
+      for (const dependency of dependencies) {
+        graph.edges.push({ from: dependency, to: key });
+      }
+    }
+  }
+
+  return graph;
+}
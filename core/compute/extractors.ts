@@ -5,7 +5,7 @@
 import type { FieldStates } from "../types";
 
 /**
- * Извлекает errors из fieldStates
+ * Извлекает errors из fieldStates — ключи ошибок до перевода (errorKey)
  * Поддерживает вложенные ключи: errors["passport.number"]
  *
  * @example
@@ -19,14 +19,35 @@ export function extractErrors<TValues extends Record<string, any>>(
 
   for (const key of Object.keys(fields)) {
     const fieldState = fields[key];
-    if (fieldState?.error) {
-      errors[key] = fieldState.error;
+    if (fieldState?.errorKey) {
+      errors[key] = fieldState.errorKey;
     }
   }
 
   return errors;
 }
 
+/**
+ * Извлекает dirtyFields из fieldStates (поля с isDirty)
+ *
+ * @example
+ * const dirtyFields = extractDirtyFields(fields);
+ * // → { "passport": true, "passport.number": true }
+ */
+export function extractDirtyFields<TValues extends Record<string, any>>(
+  fields: FieldStates<TValues>
+): Record<string, boolean> {
+  const dirtyFields: Record<string, boolean> = {};
+
+  for (const key of Object.keys(fields)) {
+    if (fields[key]?.isDirty) {
+      dirtyFields[key] = true;
+    }
+  }
+
+  return dirtyFields;
+}
+
 /**
  * Извлекает values из fieldStates
  *
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_REQUIRED_ERROR } from "./required";
+import { isEmptyValue } from "../../utils/helpers";
+import { createTestContext, createTestState } from "../actions/testUtils";
+import type { FormConfig } from "../types";
+
+type ProfileValues = {
+  name: string;
+  age: number | "";
+  agree: boolean;
+  tags: string[];
+  nickname: string;
+};
+
+const config: FormConfig<ProfileValues> = {
+  name: { value: "", isRequired: true },
+  age: { value: "", isRequired: true, types: { dataType: "Number", type: "number" } },
+  agree: { value: false, isRequired: true, types: { dataType: "Boolean", type: "checkbox" } },
+  tags: { value: [], isRequired: true, requiredError: "validation.tagsRequired" },
+  nickname: { value: "", isRequired: true, requiredError: false },
+};
+
+const ctx = createTestContext(config);
+
+const emptyValues: ProfileValues = { name: " ", age: "", agree: false, tags: [], nickname: "" };
+
+describe("required", () => {
+  it("should check emptiness by dataType", () => {
+    expect(isEmptyValue("  ")).toBe(true);
+    expect(isEmptyValue("a")).toBe(false);
+    expect(isEmptyValue(0, "Number")).toBe(false);
+    expect(isEmptyValue("", "Number")).toBe(true);
+    expect(isEmptyValue(false, "Boolean")).toBe(true);
+    expect(isEmptyValue(true, "Boolean")).toBe(false);
+    expect(isEmptyValue([], "Array")).toBe(true);
+    expect(isEmptyValue([])).toBe(true);
+    expect(isEmptyValue(["a"], "Array")).toBe(false);
+  });
+
+  it("should use per-field, form-level and default error keys", () => {
+    const state = createTestState(emptyValues, ctx);
+
+    expect(state.errors).toEqual({
+      name: DEFAULT_REQUIRED_ERROR,
+      age: DEFAULT_REQUIRED_ERROR,
+      agree: DEFAULT_REQUIRED_ERROR,
+      tags: "validation.tagsRequired",
+    });
+
+    const withFormKey = createTestState(
+      emptyValues,
+      createTestContext(config, { requiredError: "form.required" })
+    );
+    expect(withFormKey.errors).toMatchObject({ name: "form.required", tags: "validation.tagsRequired" });
+    // requiredError: false — автоматическая проверка отключена
+    expect(withFormKey.errors.nickname).toBeUndefined();
+  });
+
+  it("should not treat 0 as an empty number", () => {
+    const state = createTestState(
+      { ...emptyValues, name: "John", age: 0, agree: true, tags: ["vip"] },
+      ctx
+    );
+
+    expect(state.errors).toEqual({});
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Автоматическая проверка обязательности (isRequired)
+ */
+
+import type { FieldConfig } from "../types";
+import { isEmptyValue } from "../../utils/helpers";
+
+/** Ключ ошибки обязательного поля по умолчанию */
+export const DEFAULT_REQUIRED_ERROR = "validation.required";
+
+/**
+ * Вычисляет ошибку обязательного поля
+ *
+ * Ошибка возникает, если поле видимо, не отключено, обязательно
+ * и его значение пустое (с учётом types.dataType).
+ *
+ * Приоритет ключа ошибки:
+ * - FieldConfig.requiredError (false — отключить автоматическую проверку)
+ * - CreateFormConfig.requiredError
+ * - DEFAULT_REQUIRED_ERROR
+ *
+ * @example
+ * computeRequiredError("", cfg, { isVisible: true, isDisabled: false, isRequired: true }, "validation.required")
+ * // → "validation.required"
+ */
+export function computeRequiredError(
+  value: unknown,
+  fieldConfig: FieldConfig<any, any>,
+  flags: { isVisible: boolean; isDisabled: boolean; isRequired: boolean },
+  requiredError: string
+): string | undefined {
+  if (!flags.isRequired || !flags.isVisible || flags.isDisabled) return undefined;
+  if (fieldConfig.requiredError === false) return undefined;
+  if (!isEmptyValue(value, fieldConfig.types?.dataType)) return undefined;
+
+  return fieldConfig.requiredError ?? requiredError;
+}
@@ -9,9 +9,12 @@ import type { FieldConfig } from "../types";
  *
  * ПРАВИЛА:
  * - Если changedField === fieldKey → всегда true (собственное изменение)
+ * - Если changedField — предок или потомок fieldKey → true
+ *   (значение поля изменилось: "items" ↔ "items.0.price")
  * - Если dependencies === undefined → true (пересчёт при любом изменении)
  * - Если dependencies === [] → false (пересчёт только при init/reset)
- * - Если changedField в dependencies → true
+ * - Если changedField совпадает с зависимостью (или вложен в неё) → true
+ *   Сегмент "*" в зависимости совпадает с любым индексом: "items.*.price"
  *
  * @param fieldKey - Поле, которое проверяем
  * @param changedField - Поле, которое изменилось (null при init/reset)
@@ -29,6 +32,11 @@ export function shouldRecalculateField(
   // Собственное изменение — всегда пересчитываем
   if (fieldKey === changedField) return true;
 
+  // Изменился предок или потомок — значение поля тоже изменилось
+  if (isPathPrefix(changedField, fieldKey) || isPathPrefix(fieldKey, changedField)) {
+    return true;
+  }
+
   if (!fieldConfig) return true;
 
   const { dependencies } = fieldConfig;
@@ -40,5 +48,44 @@ export function shouldRecalculateField(
   if (dependencies.length === 0) return false;
 
   // Проверяем, есть ли changedField в списке зависимостей
-  return (dependencies as string[]).includes(changedField);
+  return dependencies.some((dependency) => matchesDependency(dependency, changedField));
+}
+
+/**
+ * Проверяет, является ли prefix строгим предком path
+ *
+ * @example
+ * isPathPrefix("items", "items.0.price") // → true
+ * isPathPrefix("items", "itemsCount") // → false
+ */
+function isPathPrefix(prefix: string, path: string): boolean {
+  return path.startsWith(`${prefix}.`);
+}
+
+/**
+ * Проверяет, затрагивает ли изменение changedField зависимость
+ *
+ * Совпадение, если changedField равен зависимости или вложен в неё
+ * ("passport" ← "passport.number"). "*" совпадает с любым сегментом.
+ *
+ * @example
+ * matchesDependency("items.*.price", "items.2.price") // → true
+ * matchesDependency("items", "items.0.price") // → true
+ * matchesDependency("items.*.price", "items.2.quantity") // → false
+ */
+function matchesDependency(dependency: string, changedField: string): boolean {
+  if (dependency === changedField || isPathPrefix(dependency, changedField)) {
+    return true;
+  }
+
+  if (!dependency.includes("*")) return false;
+
+  const dependencyParts = dependency.split(".");
+  const changedParts = changedField.split(".");
+
+  if (changedParts.length < dependencyParts.length) return false;
+
+  return dependencyParts.every(
+    (part, index) => part === "*" || part === changedParts[index]
+  );
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { translateError } from "./translateError";
+import { createForm } from "../createForm";
+import { removeFormStore } from "../registry";
+import type { FormConfig, TranslateFn } from "../types";
+
+type AmountValues = { amount: number };
+
+const config: FormConfig<AmountValues> = {
+  amount: {
+    value: 0,
+    validate: (value: number) =>
+      value < 100 ? { key: "validation.amountMin", params: { min: 100 } } : undefined,
+  },
+};
+
+const tEn: TranslateFn = (key, params) => (params ? `Minimum amount: ${params.min}` : key);
+const tRu: TranslateFn = (key, params) => (params ? `Минимальная сумма: ${params.min}` : key);
+
+describe("translateError", () => {
+  it("should translate { key, params } and keep raw errorKey", () => {
+    expect(translateError({ key: "validation.amountMin", params: { min: 100 } }, tEn)).toEqual({
+      error: "Minimum amount: 100",
+      errorKey: "validation.amountMin",
+    });
+    expect(translateError("validation.required", (key) => `t:${key}`)).toEqual({
+      error: "t:validation.required",
+      errorKey: "validation.required",
+    });
+  });
+
+  it("should re-translate existing errors on setTranslate", () => {
+    const { createController } = createForm<AmountValues>({
+      type: "TranslatedAmount",
+      config,
+      defaults: { amount: 0 },
+      persist: false,
+    });
+    const controller = createController("1", { translate: tEn });
+
+    expect(controller.getState().fields.amount).toMatchObject({
+      error: "Minimum amount: 100",
+      errorKey: "validation.amountMin",
+    });
+    expect(controller.getState().errors.amount).toBe("validation.amountMin");
+
+    controller.setTranslate(tRu);
+    expect(controller.getState().fields.amount).toMatchObject({
+      error: "Минимальная сумма: 100",
+      errorKey: "validation.amountMin",
+    });
+
+    removeFormStore("TranslatedAmount", "1");
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Перевод ошибок валидации
+ */
+
+import type { TranslateFn, ValidationError } from "../types";
+
+/**
+ * Переводит результат валидатора через translate формы
+ *
+ * @returns текст ошибки и исходный ключ (оба undefined, если ошибки нет)
+ *
+ * @example
+ * translateError({ key: "validation.amountMin", params: { min: 100 } }, t)
+ * // → { error: "Minimum amount: 100", errorKey: "validation.amountMin" }
+ *
+ * translateError(undefined, t) // → { error: undefined, errorKey: undefined }
+ */
+export function translateError(
+  result: ValidationError | undefined,
+  translate: TranslateFn
+): { error?: string; errorKey?: string } {
+  if (!result) {
+    return { error: undefined, errorKey: undefined };
+  }
+
+  if (typeof result === "string") {
+    return { error: translate(result), errorKey: result };
+  }
+
+  return { error: translate(result.key, result.params), errorKey: result.key };
+}
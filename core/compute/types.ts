@@ -2,7 +2,7 @@
  * Типы для системы вычисления состояния полей
  */
 
-import type { FormConfig, TranslateFn } from "../types";
+import type { FormConfig, TranslateFn, ValidationError } from "../types";
 
 /**
  * Контекст вычисления — всё необходимое для computeFieldState
@@ -10,12 +10,24 @@ import type { FormConfig, TranslateFn } from "../types";
 export interface ComputeContext<TValues extends Record<string, any>> {
   /** Текущие значения всех полей */
   values: TValues;
+  /** Начальные значения (для isDirty) */
+  initialValues: TValues;
   /** Конфигурация формы */
   config: FormConfig<TValues>;
   /** Функция перевода (i18n) */
   translate: TranslateFn;
   /** Текущая локаль */
   locale: string;
-  /** Показывать ли ошибки */
-  showErrors: boolean;
+  /** Результаты асинхронной валидации */
+  asyncErrors: Record<string, ValidationError>;
+  /** Ошибки валидаторов уровня формы (validate и schema) по путям полей */
+  formErrors: Record<string, ValidationError>;
+  /** Внешние ошибки (setError / setErrors) */
+  externalErrors: Record<string, ValidationError>;
+  /** Поля с незавершённой асинхронной валидацией */
+  validating: Record<string, boolean>;
+  /** Поля, которые теряли фокус (для isTouched) */
+  touchedFields: Record<string, boolean>;
+  /** Ключ ошибки для пустых обязательных полей */
+  requiredError: string;
 }
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { isFieldVisible } from "./visibility";
+import { createTestContext, createTestState } from "../actions/testUtils";
+import { setFieldValue } from "../actions/setFieldValue";
+import { isFormValid } from "../actions/isFormValid";
+import type { FormConfig } from "../types";
+
+type TravelerValues = {
+  name: string;
+  hasPassport: boolean;
+  passport: { number: string };
+};
+
+const config: FormConfig<TravelerValues> = {
+  name: { value: "", isRequired: true },
+  hasPassport: { value: false },
+  passport: {
+    nested: true,
+    isVisible: (values) => values.hasPassport,
+    number: { value: "", isRequired: true },
+  },
+};
+
+const ctx = createTestContext(config);
+
+describe("isFieldVisible", () => {
+  it("should compute validity before submit regardless of showErrors", () => {
+    const state = createTestState({ name: "", hasPassport: false, passport: { number: "" } }, ctx);
+
+    expect(state.showErrors).toBe(false);
+    expect(isFormValid(state)).toBe(false);
+    expect(isFormValid(setFieldValue(state, "name", "John", ctx))).toBe(true);
+  });
+
+  it("should hide errors of children inside a hidden nested parent", () => {
+    const state = createTestState(
+      { name: "John", hasPassport: false, passport: { number: "" } },
+      ctx
+    );
+
+    expect(isFieldVisible(state.fields, "passport.number")).toBe(false);
+    expect(isFormValid(state)).toBe(true);
+
+    const withPassport = setFieldValue(state, "hasPassport", true, ctx);
+    expect(isFieldVisible(withPassport.fields, "passport.number")).toBe(true);
+    expect(withPassport.fields["passport.number"].errorKey).toBe("validation.required");
+    expect(isFormValid(withPassport)).toBe(false);
+  });
+});
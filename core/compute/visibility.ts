@@ -0,0 +1,32 @@
+/**
+ * Видимость полей с учётом вложенности
+ */
+
+import type { FieldStates } from "../types";
+
+/**
+ * Проверяет, видимо ли поле с учётом всех предков
+ *
+ * Поле скрыто, если скрыто само поле или любой из его
+ * nested-родителей / массивов ("passport" для "passport.number").
+ *
+ * @example
+ * // fields.passport.isVisible = false, fields["passport.number"].isVisible = true
+ * isFieldVisible(fields, "passport.number") // → false
+ */
+export function isFieldVisible<TValues extends Record<string, any>>(
+  fields: FieldStates<TValues>,
+  key: string
+): boolean {
+  if (fields[key] && !fields[key].isVisible) return false;
+
+  let index = key.lastIndexOf(".");
+
+  while (index > 0) {
+    const parent = fields[key.slice(0, index)];
+    if (parent && !parent.isVisible) return false;
+    index = key.lastIndexOf(".", index - 1);
+  }
+
+  return true;
+}
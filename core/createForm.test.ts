@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import { createForm } from "./createForm";
+import { removeFormStore } from "./registry";
+import type { FormConfig } from "./types";
+import { createDraftEnvelope, memoryAdapter } from "../utils/persistence";
+
+// Хуки без рендерера: useForm вызывается как функция — один рендер, эффекты не выполняются
+vi.mock("react", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("react")>()),
+  useRef: <T>(current: T) => ({ current }),
+  useMemo: <T>(factory: () => T) => factory(),
+  useEffect: () => undefined,
+  useSyncExternalStore: <T>(_subscribe: unknown, getSnapshot: () => T) => getSnapshot(),
+}));
+
+type NoteValues = { text: string };
+
+const config: FormConfig<NoteValues> = { text: { value: "" } };
+
+describe("useForm", () => {
+  it("should create instance with persistId from options", () => {
+    const adapter = memoryAdapter({
+      "shared-note": createDraftEnvelope({ text: "Shared draft" }, 0),
+    });
+    const { useForm } = createForm<NoteValues>({
+      type: "PersistIdNote",
+      config,
+      defaults: { text: "" },
+      persist: adapter,
+    });
+
+    const form = useForm("1", { persistId: "shared-note" });
+    expect(form.values.text).toBe("Shared draft");
+
+    form.setValue("text", "Edited");
+    expect(adapter.getSync?.("shared-note")).toMatchObject({ values: { text: "Edited" } });
+    expect(adapter.getSync?.("PersistIdNote:1")).toBeUndefined();
+
+    removeFormStore("PersistIdNote", "1");
+  });
+
+  it("should keep draft pending with restoreMode prompt from options", () => {
+    const adapter = memoryAdapter({
+      "PromptNote:1": createDraftEnvelope({ text: "Unsaved" }, 0),
+    });
+    const { useForm } = createForm<NoteValues>({
+      type: "PromptNote",
+      config,
+      defaults: { text: "" },
+      persist: adapter,
+    });
+
+    const form = useForm("1", { restoreMode: "prompt" });
+    expect(form.values.text).toBe("");
+    expect(form.pendingDraft?.values).toEqual({ text: "Unsaved" });
+
+    form.restoreDraft();
+    expect(useForm("1").values.text).toBe("Unsaved");
+
+    removeFormStore("PromptNote", "1");
+  });
+});
@@ -28,164 +28,129 @@
  * // Вложенный компонент
  * const { getFieldProps } = useForm(orderId);
  * ```
+ *
+ * Логика экземпляра живёт в createFormController — useForm только
+ * подписывает компонент на его store и передаёт translate из i18n.
  */
 
 "use client";
 
-import {
-  useCallback,
-  useEffect,
-  useRef,
-  useSyncExternalStore,
-} from "react";
+import { useEffect, useMemo, useRef, useSyncExternalStore } from "react";
 
 import type {
-  FormConfig,
+  CreateFormConfig,
   FormState,
-  FieldProps,
   TranslateFn,
   ComputedFieldState,
+  SubmitStatus,
+  FieldProps,
   NestedKeyOf,
   NestedValueOf,
+  WatchedValues,
+  DraftDescriptor,
 } from "./types";
-import { createStore } from "./createStore";
-import type { Store } from "./types";
-import { mergeState } from "../utils/materialize";
 import {
-  getPersistedState,
-  setPersistedState,
-  clearPersistedState,
-} from "../utils/persistence";
-import { parseValue } from "../utils/parser";
-
-
-import { createInitialState, type ActionContext } from "./actions/createInitialState";
-// import { createComputeContext } from "./actions/createComputeContext";
-import { enableShowErrors } from "./actions/enableShowErrors";
-import { resetForm } from "./actions/resetForm";
-import { setFieldValue } from "./actions/setFieldValue";
-import { setFieldValues } from "./actions/setFieldValues";
-import { setFormLocale } from "./actions/setFormLocale";
-import { setSubmitting } from "./actions/setSubmitting";
+  createFormController,
+  type FormActions,
+  type FormController,
+  type FormControllerOptions,
+} from "./createFormController";
+import {
+  getRegistryEntry,
+  getRegistryKey,
+  registerFormDefinition,
+  retainFormEntry,
+  releaseFormEntry,
+} from "./registry";
 import { isFormValid } from "./actions/isFormValid";
-import { getVisibleFieldKeys } from "./actions/getVisibleFieldKeys";
-
+import { useField as useFieldHook } from "../react/useField";
+import { useFormState as useFormStateHook } from "../react/useFormState";
+import { useWatch as useWatchHook } from "../react/useWatch";
 import { defaultTranslate } from "./compute/defaultTranslate";
-import { getFieldConfigByPath } from "../utils/pathUtils";
 
+export type { CreateFormConfig } from "./types";
+export {
+  getFormStore,
+  hasFormStore,
+  removeFormStore,
+  getRegistryKeys,
+} from "./registry";
 
 // ============================================================================
 // Типы
 // ============================================================================
 
-/**
- * Конфигурация для createForm (модульный уровень)
- */
-export interface CreateFormConfig<TValues extends Record<string, any>> {
-  /** Конфигурация полей */
-  config: FormConfig<TValues>;
-
-  /** Значения по умолчанию */
-  defaults: TValues;
-
-  /**
-   * Ссылка на хук i18n (например useTranslations).
-   * Вызывается внутри useForm, в React-контексте.
-   * Если не указан — используется defaultTranslate (key => key).
-   */
-  translateFunction?: () => TranslateFn | ((key: string, params?: Record<string, any>) => string);
-
-  /**
-   * Тип формы — для уникального ключа в registry.
-   * Registry key = "type:id", например "Order:NewOrder"
-   */
-  type: string;
-}
-
 /**
  * Опции для useForm (React-уровень)
+ * translate берётся из CreateFormConfig.translateFunction
  */
-export interface UseFormOptions<TValues extends Record<string, any>> {
-  /** Данные с сервера — мержатся в store при каждом изменении ссылки */
-  initial?: Partial<TValues>;
-  /** Отправка формы */
-  onSubmit?: (values: TValues) => Promise<any> | void;
-  /** Трансформация перед валидацией и отправкой */
-  beforeSubmit?: (values: TValues) => Promise<TValues> | TValues;
-  /** Сайд-эффекты после успешного submit */
-  afterSubmit?: (result: any, reset: () => void) => Promise<void> | void;
-  /**
-   * Вызывается при изменении любого поля ПОСЛЕ пересчёта computed.
-   * Можно вернуть Partial для мержа в values.
-   */
-  onChange?: (params: {
-    fieldKey: keyof TValues;
-    newValue: any;
-    previousValue: any;
-    allValues: TValues;
-  }) => Partial<TValues> | void | Promise<Partial<TValues> | void>;
-
-  /** Переопределить авто-persist key (по умолчанию type:id) */
-  persistId?: string;
-}
+export type UseFormOptions<TValues extends Record<string, any>> = Omit<
+  FormControllerOptions<TValues>,
+  "translate"
+>;
 
 /**
  * API возвращаемый useForm
  */
-export interface UseFormReturn<TValues extends Record<string, any>> {
-  /** Получить пропсы поля (хук — вызывает useSyncExternalStore) 
-   * Поддерживает вложенные пути с автокомплитом: getFieldProps("passport.number")
-   */
-  getFieldProps: <K extends NestedKeyOf<TValues>>(
-    key: K
-  ) => FieldProps<NestedValueOf<TValues, K>>;
-  
-  /** Установить значение поля
-   * Поддерживает вложенные пути с автокомплитом: setValue("passport.number", "123")
-   */
-  setValue: <K extends NestedKeyOf<TValues>>(
-    key: K,
-    value: NestedValueOf<TValues, K>
-  ) => void;
-  
-  /** Установить несколько значений */
-  setValues: (values: Partial<TValues>) => void;
-  /** Сбросить форму */
-  reset: (next?: Partial<TValues>) => void;
-  /** Отправить форму */
-  submit: () => Promise<void>;
+export interface UseFormReturn<TValues extends Record<string, any>> extends FormActions<TValues> {
   /** Форма изменена */
   dirty: boolean;
+  /** Изменённые поля (по путям, включая родителей: "passport" и "passport.number") */
+  dirtyFields: Record<string, boolean>;
+  /** Поля, которые теряли фокус */
+  touchedFields: Record<string, boolean>;
+  /** Поля, которые получали фокус */
+  visitedFields: Record<string, boolean>;
   /** Форма отправляется */
   submitting: boolean;
-  /** Форма валидна (нет ошибок в видимых полях) */
+  /** Статус отправки: idle → validating → submitting → succeeded | failed */
+  status: SubmitStatus;
+  /** Количество попыток отправки */
+  submitCount: number;
+  /** Последняя отправка завершилась успешно */
+  submitSucceeded: boolean;
+  /** Ошибка последней отправки (beforeSubmit / onSubmit / afterSubmit) */
+  lastSubmitError?: unknown;
+  /** Результат onSubmit последней успешной отправки */
+  lastSubmitResult?: unknown;
+  /** Время начала последней отправки */
+  submitStartedAt?: number;
+  /** Время окончания последней отправки */
+  submitFinishedAt?: number;
+  /** Идёт асинхронная валидация хотя бы одного поля */
+  isValidating: boolean;
+  /** Черновик загружается из асинхронного хранилища (values пока — defaults) */
+  isHydrating: boolean;
+  /** Найденный черновик, ожидающий restoreDraft / discardDraft (restoreMode: "prompt") */
+  pendingDraft?: DraftDescriptor<TValues>;
+  /**
+   * Форма валидна (нет ошибок в видимых полях)
+   * Достоверно с первого рендера — не зависит от showErrors
+   */
   isValid: boolean;
-  /** Получить список видимых полей */
-  getVisibleFields: () => Array<string>;
   /** Текущие значения (для отладки / превью) */
   values: TValues;
   /** Текущие ошибки */
   errors: Partial<Record<string, string>>;
+  /** Ошибка всей формы (FORM_ERROR_KEY), переведённая */
+  formError?: string;
   /** Computed поля */
   fields: Record<string, ComputedFieldState<any>>;
+  /** Есть правка для undo (CreateFormConfig.history) */
+  canUndo: boolean;
+  /** Есть отменённая правка для redo */
+  canRedo: boolean;
 }
 
-// ============================================================================
-// Registry — хранение stores по type:id
-// ============================================================================
-
-const storeRegistry = new Map<
-  string,
-  {
-    store: Store<FormState<any>>;
-    config: FormConfig<any>;
-    defaults: any;
-    refCount: number;
-  }
->();
-
-function getRegistryKey(type: string, id: string): string {
-  return `${type}:${id}`;
+/**
+ * useWatch формы: один путь — значение, список путей — кортеж значений
+ */
+export interface UseWatch<TValues extends Record<string, any>> {
+  <K extends NestedKeyOf<TValues>>(id: string, path: K): NestedValueOf<TValues, K>;
+  <const K extends ReadonlyArray<NestedKeyOf<TValues>>>(
+    id: string,
+    paths: K
+  ): WatchedValues<TValues, K>;
 }
 
 // ============================================================================
@@ -196,435 +161,243 @@ function getRegistryKey(type: string, id: string): string {
  * Создаёт типизированную форму с хуком useForm.
  *
  * Вызывается на уровне модуля (config/orderForm.ts).
- * Возвращает `{ useForm }` — хук для React-компонентов.
+ * Возвращает `{ useForm, useField, useFormState, useWatch, createController }`:
+ * хуки для React-компонентов и типизированный createFormController для кода вне React.
  */
 export function createForm<TValues extends Record<string, any>>(
   formConfig: CreateFormConfig<TValues>
-): { useForm: (id: string, options?: UseFormOptions<TValues>) => UseFormReturn<TValues> } {
-  const { config, defaults, translateFunction, type } = formConfig;
+): {
+  useForm: (id: string, options?: UseFormOptions<TValues>) => UseFormReturn<TValues>;
+  useField: <K extends NestedKeyOf<TValues>>(
+    id: string,
+    key: K
+  ) => FieldProps<NestedValueOf<TValues, K>>;
+  useFormState: <U>(
+    id: string,
+    selector: (state: FormState<TValues>) => U,
+    equalityFn?: (a: U, b: U) => boolean
+  ) => U;
+  useWatch: UseWatch<TValues>;
+  createController: (
+    id: string,
+    options?: FormControllerOptions<TValues>
+  ) => FormController<TValues>;
+} {
+  const { translateFunction, type } = formConfig;
 
   // Конфиг хранится в оригинальном вложенном виде.
   // Рекурсивный обход выполняется в compute-функциях.
+  registerFormDefinition(formConfig);
+
+  const createController = (id: string, options?: FormControllerOptions<TValues>) =>
+    createFormController<TValues>(type, id, options);
 
   /**
-   * useForm — React-хук для работы с формой
+   * Находит или создаёт controller экземпляра и держит его translate актуальным
+   * Общая часть useForm / useField / useFormState
    *
-   * @param id — ID экземпляра ("NewOrder", order.id, и т.д.)
-   * @param options — опции (initial, onSubmit, onChange, ...). Корневой компонент передаёт options, вложенные — нет.
+   * @param options - опции useForm: нужны уже при создании (persistId, restoreMode)
    */
-  function useForm(
+  function useFormController(
     id: string,
     options?: UseFormOptions<TValues>
-  ): UseFormReturn<TValues> {
+  ): FormController<TValues> {
     const registryKey = getRegistryKey(type, id);
-    const persistKey = options?.persistId ?? registryKey;
 
     // ====================================================================
     // Получаем translate через translateFunction (вызываем хук i18n)
     // ====================================================================
-    let translate: TranslateFn = defaultTranslate;
+    let t: ReturnType<NonNullable<typeof translateFunction>> | undefined;
     if (translateFunction) {
       try {
-        const t = translateFunction();
-        translate = (key: string, params?: Record<string, any>) => {
-          try {
-            return (t as any)(key, params);
-          } catch {
-            return key;
-          }
-        };
+        t = translateFunction();
       } catch {
         // translateFunction может быть недоступен (SSR без провайдера)
       }
     }
 
-    // ====================================================================
-    // Refs для колбэков (всегда актуальная версия)
-    // ====================================================================
-    const onSubmitRef = useRef(options?.onSubmit);
-    onSubmitRef.current = options?.onSubmit;
-
-    const beforeSubmitRef = useRef(options?.beforeSubmit);
-    beforeSubmitRef.current = options?.beforeSubmit;
-
-    const afterSubmitRef = useRef(options?.afterSubmit);
-    afterSubmitRef.current = options?.afterSubmit;
-
-    const onChangeRef = useRef(options?.onChange);
-    onChangeRef.current = options?.onChange;
-
-    const translateRef = useRef(translate);
-    translateRef.current = translate;
-
-    // ====================================================================
-    // Создаём или находим store в registry
-    // ====================================================================
-    const entryRef = useRef<{
-      store: Store<FormState<TValues>>;
-      key: string;
-    } | null>(null);
-
-    if (!entryRef.current || entryRef.current.key !== registryKey) {
-      let existing = storeRegistry.get(registryKey);
-
-      if (existing) {
-        existing.refCount++;
-      } else {
-        // Создаём store из defaults
-        const persisted = getPersistedState<Partial<TValues>>(persistKey);
-        const mergedValues = mergeState(defaults, persisted as Partial<TValues>);
-
-        const ctx: ActionContext<TValues> = {
-          config,
-          translate,
-          locale: "auto",
-        };
-
-        const initialState = createInitialState(mergedValues, undefined, ctx);
-
-        const store = createStore<FormState<TValues>>(initialState);
-
-        existing = {
-          store,
-          config,
-          defaults,
-          refCount: 1,
-        };
-
-        storeRegistry.set(registryKey, existing);
-      }
-
-      entryRef.current = { store: existing.store as Store<FormState<TValues>>, key: registryKey };
-    }
-
-    const store = entryRef.current.store;
-
-    // ====================================================================
-    // Мерж initial данных (при изменении ссылки)
-    // ====================================================================
-    const prevInitialRef = useRef<Partial<TValues> | undefined>(undefined);
-
-    if (options?.initial && !Object.is(prevInitialRef.current, options.initial)) {
-      prevInitialRef.current = options.initial;
-
-      // Мержим initial в store, не перезаписывая dirty-поля
-      const currentState = store.getState();
-      const initial = options.initial;
-      const newValues = { ...currentState.values };
-      let hasChanges = false;
-
-      for (const key of Object.keys(initial) as Array<keyof TValues>) {
-        if (initial[key] === undefined) continue;
-
-        // Поле dirty, если отличается от initialValues
-        const isDirty = !Object.is(
-          currentState.values[key],
-          currentState.initialValues[key]
-        );
-
-        if (!isDirty) {
-          // Поле не трогали → берём из initial
-          if (!Object.is(newValues[key], initial[key])) {
-            newValues[key] = initial[key] as TValues[keyof TValues];
-            hasChanges = true;
-          }
+    // Стабильная ссылка, пока не сменился t (локаль) — иначе тексты пересчитывались бы на каждый рендер
+    const translate = useMemo<TranslateFn>(() => {
+      if (!t) return defaultTranslate;
+      return (key: string, params?: Record<string, any>) => {
+        try {
+          return (t as any)(key, params);
+        } catch {
+          return key;
         }
-        // Поле dirty → оставляем как есть
-      }
-
-      if (hasChanges) {
-        const ctx: ActionContext<TValues> = {
-          config,
-          translate: translateRef.current,
-          locale: "auto",
-        };
-        store.setState((prev) =>
-          setFieldValues(
-            { ...prev, initialValues: { ...prev.initialValues, ...initial } as TValues },
-            newValues,
-            ctx
-          )
-        );
-      }
-    }
+      };
+    }, [t]);
 
     // ====================================================================
-    // ActionContext (всегда актуальный)
+    // Находим или создаём controller в registry
     // ====================================================================
-    const getActionCtx = useCallback(
-      (): ActionContext<TValues> => ({
-        config,
-        translate: translateRef.current,
-        locale: "auto",
-      }),
-      [config]
-    );
+    const controllerRef = useRef<FormController<TValues> | null>(null);
+
+    // Экземпляр мог быть удалён из registry (eviction / removeFormStore) — берём актуальный
+    if (
+      !controllerRef.current ||
+      controllerRef.current.key !== registryKey ||
+      getRegistryEntry(registryKey)?.controller !== controllerRef.current
+    ) {
+      // translate нужен уже при создании — иначе первый рендер показал бы ключи
+      const existing = getRegistryEntry(registryKey)?.controller as
+        | FormController<TValues>
+        | undefined;
+      controllerRef.current = existing ?? createController(id, { ...options, translate });
+    }
 
-    // ====================================================================
-    // Подписка на весь state (для dirty, submitting, isValid, values и т.д.)
-    // ====================================================================
-    const state = useSyncExternalStore(
-      store.subscribe,
-      store.getState,
-      store.getState
-    );
+    const controller = controllerRef.current;
 
     // ====================================================================
     // Пересчёт при смене translate (другая локаль)
     // ====================================================================
-    const prevTranslateRef = useRef(translate);
     useEffect(() => {
-      if (prevTranslateRef.current !== translate) {
-        prevTranslateRef.current = translate;
-        const ctx = getActionCtx();
-        store.setState((prev) => setFormLocale(prev, "auto", ctx));
-      }
-    }, [translate, store, getActionCtx]);
+      controller.setTranslate(translate);
+    }, [controller, translate]);
 
     // ====================================================================
-    // Persist
+    // refCount (mount / unmount)
     // ====================================================================
     useEffect(() => {
-      if (persistKey) {
-        setPersistedState(persistKey, state.values);
-      }
-    }, [state.values, persistKey]);
-
-    // ====================================================================
-    // Cleanup при unmount (decrement refCount)
-    // ====================================================================
-    useEffect(() => {
-      const key = registryKey;
+      retainFormEntry(registryKey);
       return () => {
-        const entry = storeRegistry.get(key);
-        if (entry) {
-          entry.refCount--;
-          // Не удаляем сразу — store остаётся для persist / возврата
-          // Можно добавить cleanup по таймеру в будущем
+        // Отложенный черновик пишется сразу — экземпляр может быть удалён
+        void controller.flushDraft();
+        // Удалённый экземпляр уже не в registry — refCount нового не трогаем
+        if (getRegistryEntry(registryKey)?.controller === controller) {
+          releaseFormEntry(registryKey);
         }
       };
-    }, [registryKey]);
-
-    // ====================================================================
-    // Actions
-    // ====================================================================
-
-    const setValue = useCallback(
-      (key: string, value: any) => {
-        const ctx = getActionCtx();
-        const fieldConfig = getFieldConfigByPath(config, key);
-
-        // Если есть setter — используем его (для связанных изменений)
-        if (fieldConfig?.setter) {
-          const currentValues = store.getState().values;
-          fieldConfig.setter(value, currentValues, (nextValues) => {
-            store.setState((prev) =>
-              setFieldValues(prev, nextValues, ctx)
-            );
-          });
-          return;
-        }
-
-        // Получаем previousValue по пути (для вложенных полей)
-        const previousValue = (() => {
-          const parts = key.split(".");
-          return parts.reduce((obj: any, k) => obj?.[k], store.getState().values);
-        })();
-
-        // Обычное обновление (поддерживает вложенные пути)
-        store.setState((prev) => setFieldValue(prev, key, value, ctx));
-
-        // onChange callback
-        if (onChangeRef.current) {
-          const currentState = store.getState();
-          Promise.resolve(
-            onChangeRef.current({
-              fieldKey: key,
-              newValue: value,
-              previousValue,
-              allValues: currentState.values,
-            })
-          )
-            .then((result) => {
-              if (result) {
-                store.setState((prev) =>
-                  setFieldValues(prev, result, ctx)
-                );
-              }
-            })
-            .catch((err) => {
-              // eslint-disable-next-line no-console
-              console.error("[Palistor] onChange error:", err);
-            });
-        }
-      },
-      [store, config, getActionCtx]
-    );
-
-    const setValues = useCallback(
-      (values: Partial<TValues>) => {
-        const ctx = getActionCtx();
-        store.setState((prev) => setFieldValues(prev, values, ctx));
-      },
-      [store, getActionCtx]
-    );
-
-    const reset = useCallback(
-      (next?: Partial<TValues>) => {
-        const ctx = getActionCtx();
-        store.setState((prev) => resetForm(prev, next, defaults, ctx));
+    }, [registryKey, controller]);
 
-        // Очищаем черновик
-        if (persistKey) {
-          clearPersistedState(persistKey);
-        }
-      },
-      [store, getActionCtx, persistKey]
-    );
-
-    const submit = useCallback(async () => {
-      const ctx = getActionCtx();
-      let vals = store.getState().values;
-
-      // beforeSubmit
-      if (beforeSubmitRef.current) {
-        try {
-          vals = await beforeSubmitRef.current(vals);
-          store.setState((prev) => setFieldValues(prev, vals, ctx));
-        } catch {
-          return;
-        }
-      }
-
-      // Включаем показ ошибок и валидируем
-      store.setState((prev) => enableShowErrors(prev, ctx));
-
-      const currentState = store.getState();
-      if (!isFormValid(currentState)) {
-        return;
-      }
-
-      // Отправка
-      store.setState((prev) => setSubmitting(prev, true));
-
-      try {
-        const data = await onSubmitRef.current?.(currentState.values);
-        await afterSubmitRef.current?.(data, reset);
+    return controller;
+  }
 
-        // Очищаем черновик после успешной отправки
-        if (persistKey) {
-          clearPersistedState(persistKey);
-        }
-      } finally {
-        store.setState((prev) => setSubmitting(prev, false));
-      }
-    }, [store, getActionCtx, reset, persistKey]);
+  /**
+   * useForm — React-хук для работы с формой
+   *
+   * @param id — ID экземпляра ("NewOrder", order.id, и т.д.)
+   * @param options — опции (initial, onSubmit, onChange, ...). Корневой компонент передаёт options, вложенные — нет.
+   */
+  function useForm(
+    id: string,
+    options?: UseFormOptions<TValues>
+  ): UseFormReturn<TValues> {
+    const controller = useFormController(id, options);
 
-    const getVisibleFields = useCallback((): Array<string> => {
-      return getVisibleFieldKeys(store.getState());
-    }, [store]);
+    // Колбэки всегда актуальные, initial мержится при изменении ссылки
+    if (options) {
+      controller.setOptions(options);
+    }
 
     // ====================================================================
-    // getFieldProps — хук для получения пропсов поля с подпиской
+    // Подписка на весь state (для dirty, submitting, isValid, values и т.д.)
     // ====================================================================
-    // ВАЖНО: getFieldProps использует useSyncExternalStore внутри,
-    // но так как это вызывается из useForm (который сам хук),
-    // и количество вызовов getFieldProps стабильно — это безопасно.
-    // Однако для максимальной корректности, getFieldProps не вызывает
-    // дополнительный useSyncExternalStore. Подписка идёт через state выше.
-
-    const getFieldProps = useCallback(
-      (key: string): FieldProps<any> => {
-        const currentState = store.getState();
-        const fieldState = currentState.fields[key];
-
-        if (!fieldState) {
-          // Более информативная ошибка для отладки
-          const availableKeys = Object.keys(currentState.fields);
-          const configKeys = Object.keys(config);
-          
-          throw new Error(
-            `[Palistor] No field state found for key: "${key}"\n` +
-            `Available fields in state: ${availableKeys.join(", ")}\n` +
-            `Available fields in config: ${configKeys.join(", ")}\n` +
-            `Hint: For nested fields, use dot notation (e.g., "passport.number")`
-          );
-        }
-
-        return {
-          ...fieldState,
-          onValueChange: (val: any) => {
-            const fieldCfg = getFieldConfigByPath(config, key);
+    const state: FormState<TValues> = useSyncExternalStore(
+      controller.subscribe,
+      controller.getState,
+      controller.getState
+    );
 
-            if (fieldCfg?.types?.dataType) {
-              const parsedValue = parseValue(val, fieldCfg.types.dataType);
-              setValue(key, parsedValue);
-            } else {
-              setValue(key, val);
-            }
-          },
-          isInvalid: !!(currentState.showErrors && fieldState.error),
-          errorMessage: currentState.showErrors ? fieldState.error : undefined,
-          isDisabled: fieldState.isDisabled || currentState.submitting,
-        };
-      },
-      [store, config, setValue]
+    const historyState = useSyncExternalStore(
+      controller.history.subscribe,
+      controller.history.getState,
+      controller.history.getState
     );
 
     // ====================================================================
     // Return API
     // ====================================================================
     return {
-      getFieldProps,
-      setValue,
-      setValues,
-      reset,
-      submit,
+      getFieldProps: controller.getFieldProps,
+      setValue: controller.setValue,
+      setValues: controller.setValues,
+      append: controller.append,
+      insert: controller.insert,
+      remove: controller.remove,
+      move: controller.move,
+      swap: controller.swap,
+      reset: controller.reset,
+      submit: controller.submit,
       dirty: state.dirty,
+      dirtyFields: state.dirtyFields,
+      touchedFields: state.touchedFields,
+      visitedFields: state.visitedFields,
       submitting: state.submitting,
+      status: state.status,
+      submitCount: state.submitCount,
+      submitSucceeded: state.status === "succeeded",
+      lastSubmitError: state.lastSubmitError,
+      lastSubmitResult: state.lastSubmitResult,
+      submitStartedAt: state.submitStartedAt,
+      submitFinishedAt: state.submitFinishedAt,
+      isValidating: Object.keys(state.validating).length > 0,
+      isHydrating: state.hydrating,
+      pendingDraft: state.pendingDraft,
+      restoreDraft: controller.restoreDraft,
+      discardDraft: controller.discardDraft,
       isValid: isFormValid(state),
-      getVisibleFields,
+      getVisibleFields: controller.getVisibleFields,
       values: state.values,
       errors: state.errors,
+      formError: controller.getFormError(),
+      setError: controller.setError,
+      setErrors: controller.setErrors,
+      clearErrors: controller.clearErrors,
       fields: state.fields,
+      undo: controller.undo,
+      redo: controller.redo,
+      clearHistory: controller.clearHistory,
+      canUndo: historyState.canUndo,
+      canRedo: historyState.canRedo,
     };
   }
 
-  return { useForm };
-}
-
-// ============================================================================
-// Утилиты для работы с registry
-// ============================================================================
-
-/**
- * Получить store напрямую по type:id (для escape hatch)
- */
-export function getFormStore<TValues extends Record<string, any>>(
-  type: string,
-  id: string
-): Store<FormState<TValues>> | undefined {
-  const entry = storeRegistry.get(getRegistryKey(type, id));
-  return entry?.store as Store<FormState<TValues>> | undefined;
-}
+  /**
+   * useField — подписка на одно поле
+   * Ре-рендер только при изменении состояния этого поля (или показа его ошибки)
+   *
+   * @example
+   * const cardNumber = useField(formId, "cardNumber");
+   * return <Input {...cardNumber} />;
+   */
+  function useField<K extends NestedKeyOf<TValues>>(
+    id: string,
+    key: K
+  ): FieldProps<NestedValueOf<TValues, K>> {
+    return useFieldHook<NestedValueOf<TValues, K>>(useFormController(id), key);
+  }
 
-/**
- * Проверить наличие store в registry
- */
-export function hasFormStore(type: string, id: string): boolean {
-  return storeRegistry.has(getRegistryKey(type, id));
-}
+  /**
+   * useFormState — подписка на выбранную часть состояния формы
+   *
+   * @example
+   * const dirty = useFormState(formId, (state) => state.dirty);
+   */
+  function useFormState<U>(
+    id: string,
+    selector: (state: FormState<TValues>) => U,
+    equalityFn?: (a: U, b: U) => boolean
+  ): U {
+    return useFormStateHook(useFormController(id), selector, equalityFn);
+  }
 
-/**
- * Удалить store из registry
- */
-export function removeFormStore(type: string, id: string): void {
-  storeRegistry.delete(getRegistryKey(type, id));
-}
+  /**
+   * useWatch — подписка на значения по путям (глубокое сравнение)
+   *
+   * @example
+   * const country = useWatch(formId, "country");
+   * const [issueDate, expiryDate] = useWatch(formId, ["passport.issueDate", "passport.expiryDate"]);
+   */
+  function useWatch(id: string, paths: string | ReadonlyArray<string>): any {
+    return useWatchHook(useFormController(id), paths);
+  }
 
-/**
- * Получить все ключи из registry (для отладки)
- */
-export function getRegistryKeys(): string[] {
-  return Array.from(storeRegistry.keys());
+  return {
+    useForm,
+    useField,
+    useFormState,
+    useWatch: useWatch as UseWatch<TValues>,
+    createController,
+  };
 }
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi } from "vitest";
+import { createForm } from "./createForm";
+import { createFormController } from "./createFormController";
+import { removeFormStore } from "./registry";
+import type { FormConfig, PersistenceAdapter } from "./types";
+import { memoryAdapter } from "../utils/persistence";
+
+type SignupValues = { email: string; age: number; passport: { issueDate: string; number: string } };
+
+const config: FormConfig<SignupValues> = {
+  email: {
+    value: "",
+    validate: (value: string) => (!value.includes("@") ? "validation.email" : undefined),
+  },
+  age: { value: 0, types: { dataType: "Number", type: "number" } },
+  passport: { nested: true, issueDate: { value: "" }, number: { value: "" } },
+};
+
+const { createController } = createForm<SignupValues>({
+  type: "Signup",
+  config,
+  defaults: { email: "", age: 0, passport: { issueDate: "", number: "" } },
+});
+
+describe("createFormController", () => {
+  it("should share one instance per type:id", () => {
+    const controller = createController("shared");
+
+    expect(createFormController("Signup", "shared")).toBe(controller);
+    removeFormStore("Signup", "shared");
+    expect(createFormController("Signup", "shared")).not.toBe(controller);
+    removeFormStore("Signup", "shared");
+  });
+
+  it("should throw for unknown form type", () => {
+    expect(() => createFormController("Unknown", "1")).toThrow("[Palistor] Unknown form type");
+  });
+
+  it("should update state and notify subscribers without React", () => {
+    const controller = createController("change");
+    const listener = vi.fn();
+    const unsubscribe = controller.subscribe(listener);
+
+    controller.changeField("age", "42");
+
+    expect(controller.getState().values.age).toBe(42);
+    expect(controller.getState().dirty).toBe(true);
+    expect(listener).toHaveBeenCalled();
+
+    unsubscribe();
+    removeFormStore("Signup", "change");
+  });
+
+  it("should submit valid values and skip invalid ones", async () => {
+    const onSubmit = vi.fn(async () => "saved");
+    const controller = createController("submit", { onSubmit });
+
+    await controller.submit();
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(controller.getState().status).toBe("idle");
+    expect(controller.getFieldProps("email").errorMessage).toBe("validation.email");
+
+    controller.setValue("email", "user@mail.com");
+    await controller.submit();
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      email: "user@mail.com",
+      age: 0,
+      passport: { issueDate: "", number: "" },
+    });
+    expect(controller.getState().status).toBe("succeeded");
+    expect(controller.getState().lastSubmitResult).toBe("saved");
+    removeFormStore("Signup", "submit");
+  });
+
+  it("should call watch callback only when watched values change", () => {
+    const controller = createController("watch");
+    const onIssueDate = vi.fn();
+    const onPassport = vi.fn();
+
+    controller.watch("passport.issueDate", onIssueDate);
+    const unwatch = controller.watch(["email", "passport"], onPassport);
+
+    controller.setValue("passport.number", "AB123");
+    expect(onIssueDate).not.toHaveBeenCalled();
+    expect(onPassport).toHaveBeenCalledTimes(1);
+
+    controller.setValue("passport.issueDate", "2020-01-01");
+    expect(onIssueDate).toHaveBeenCalledWith("2020-01-01", "");
+
+    // Новый объект с тем же содержимым — не изменение
+    unwatch();
+    const onSamePassport = vi.fn();
+    controller.watch("passport", onSamePassport);
+    controller.setValues({ passport: { issueDate: "2020-01-01", number: "AB123" } });
+    expect(onSamePassport).not.toHaveBeenCalled();
+
+    removeFormStore("Signup", "watch");
+  });
+
+  it("should hydrate draft from async adapter without writing defaults over it", async () => {
+    const storage = memoryAdapter({
+      "AsyncSignup:1": { email: "draft@mail.com", passport: { number: "AB123" } },
+    });
+    // Асинхронное хранилище: без getSync
+    const adapter: PersistenceAdapter = { ...storage, getSync: undefined };
+
+    const { createController: createAsyncController } = createForm<SignupValues>({
+      type: "AsyncSignup",
+      config,
+      defaults: { email: "", age: 0, passport: { issueDate: "", number: "" } },
+      persist: adapter,
+    });
+    const controller = createAsyncController("1");
+
+    expect(controller.getState().hydrating).toBe(true);
+    expect(controller.getState().values.email).toBe("");
+
+    await vi.waitFor(() => expect(controller.getState().hydrating).toBe(false));
+    expect(controller.getState().values.email).toBe("draft@mail.com");
+    expect(controller.getState().values.passport).toEqual({ issueDate: "", number: "AB123" });
+    expect(controller.getState().dirty).toBe(false);
+
+    controller.setValue("age", 30);
+    expect(await adapter.get("AsyncSignup:1")).toMatchObject({
+      version: 0,
+      values: { email: "draft@mail.com", age: 30 },
+    });
+
+    removeFormStore("AsyncSignup", "1");
+  });
+
+  it("should keep edits made while hydrating and let initial win over draft", async () => {
+    const draft = { email: "draft@mail.com", age: 40, passport: { number: "AB123" } };
+    const storage = memoryAdapter({ "OrderedSignup:sync": draft, "OrderedSignup:async": draft });
+    const { createController: createOrderedController } = createForm<SignupValues>({
+      type: "OrderedSignup",
+      config,
+      defaults: { email: "", age: 0, passport: { issueDate: "", number: "" } },
+      persist: { adapter: { ...storage, getSync: undefined } },
+    });
+    const { createController: createSyncController } = createForm<SignupValues>({
+      type: "OrderedSignupSync",
+      config,
+      defaults: { email: "", age: 0, passport: { issueDate: "", number: "" } },
+      persist: memoryAdapter({ "OrderedSignupSync:sync": draft }),
+    });
+
+    const sync = createSyncController("sync", { initial: { age: 25 } });
+    const controller = createOrderedController("async", { initial: { age: 25 } });
+    controller.setValue("email", "typed@mail.com");
+
+    await vi.waitFor(() => expect(controller.getState().hydrating).toBe(false));
+    expect(controller.getState().values).toEqual({
+      email: "typed@mail.com",
+      age: 25,
+      passport: { issueDate: "", number: "AB123" },
+    });
+    expect(sync.getState().values.age).toBe(25);
+    await vi.waitFor(async () =>
+      expect(await storage.get("OrderedSignup:async")).toMatchObject({
+        values: { email: "typed@mail.com", age: 25 },
+      })
+    );
+
+    removeFormStore("OrderedSignup", "async");
+    removeFormStore("OrderedSignupSync", "sync");
+  });
+
+  it("should store only encrypted payload and decrypt it on load", async () => {
+    const adapter = memoryAdapter();
+    // Обратимое «шифрование» для теста
+    const encryption = {
+      encrypt: async (text: string) => `enc:${[...text].reverse().join("")}`,
+      decrypt: async (text: string) => [...text.slice(4)].reverse().join(""),
+    };
+    const { createController: createSecureController } = createForm<SignupValues>({
+      type: "SecureSignup",
+      config,
+      defaults: { email: "", age: 0, passport: { issueDate: "", number: "" } },
+      persist: { adapter, encryption },
+    });
+
+    const controller = createSecureController("1");
+    await vi.waitFor(() => expect(controller.getState().hydrating).toBe(false));
+    controller.setValue("email", "secret@mail.com");
+    await vi.waitFor(async () => expect(await adapter.list()).toEqual(["SecureSignup:1"]));
+    expect(adapter.getSync?.("SecureSignup:1")).toMatch(/^enc:/);
+    expect(adapter.getSync?.("SecureSignup:1")).not.toContain("secret@mail.com");
+
+    removeFormStore("SecureSignup", "1");
+    const restored = createSecureController("1");
+    await vi.waitFor(() => expect(restored.getState().hydrating).toBe(false));
+    expect(restored.getState().values.email).toBe("secret@mail.com");
+
+    removeFormStore("SecureSignup", "1");
+  });
+});
+
+describe("submit status", () => {
+  it("should return invalid form to idle and count the attempt", async () => {
+    const onSubmit = vi.fn();
+    const controller = createController("invalid", { onSubmit });
+
+    await controller.submit();
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(controller.getState()).toMatchObject({ status: "idle", submitCount: 1, showErrors: true });
+    removeFormStore("Signup", "invalid");
+  });
+
+  it("should fail with lastSubmitError when beforeSubmit or onSubmit throws", async () => {
+    const error = new Error("network");
+    const controller = createController("failed", {
+      onSubmit: () => Promise.reject(error),
+    });
+    controller.setValue("email", "john@mail.com");
+
+    await controller.submit();
+    expect(controller.getState()).toMatchObject({
+      status: "failed",
+      submitting: false,
+      lastSubmitError: error,
+    });
+
+    controller.setOptions({
+      beforeSubmit: () => {
+        throw new Error("transform");
+      },
+    });
+    await controller.submit();
+    expect(controller.getState().status).toBe("failed");
+    expect((controller.getState().lastSubmitError as Error).message).toBe("transform");
+    expect(controller.getState().submitCount).toBe(2);
+
+    removeFormStore("Signup", "failed");
+  });
+
+  it("should ignore submit while validating or submitting", async () => {
+    let finish: () => void = () => undefined;
+    const onSubmit = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const controller = createController("reentrant", { onSubmit });
+    controller.setValue("email", "john@mail.com");
+
+    const first = controller.submit();
+    expect(controller.getState().status).toBe("validating");
+    await controller.submit();
+
+    await vi.waitFor(() => expect(controller.getState().status).toBe("submitting"));
+    await controller.submit();
+    finish();
+    await first;
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(controller.getState()).toMatchObject({ status: "succeeded", submitCount: 1 });
+    removeFormStore("Signup", "reentrant");
+  });
+
+  it("should keep status and submitCount when afterSubmit resets the form", async () => {
+    const controller = createController("afterReset", {
+      onSubmit: async () => "saved",
+      afterSubmit: (_result, reset) => reset(),
+    });
+    controller.setValue("email", "john@mail.com");
+
+    await controller.submit();
+
+    expect(controller.getState()).toMatchObject({
+      status: "succeeded",
+      submitCount: 1,
+      lastSubmitResult: "saved",
+      dirty: false,
+      values: { email: "" },
+    });
+    removeFormStore("Signup", "afterReset");
+  });
+});
@@ -0,0 +1,747 @@
+/**
+ * createFormController — экземпляр формы без привязки к фреймворку
+ *
+ * Владеет store формы и всей логикой экземпляра: действия, submit,
+ * асинхронная валидация, persist черновика. Не зависит от React —
+ * подходит для тестов, Node-скриптов, других UI-библиотек.
+ * useForm — тонкая React-обёртка над ним.
+ *
+ * Экземпляр хранится в registry по ключу "type:id": повторный вызов
+ * (и useForm с тем же id) возвращает тот же controller.
+ *
+ * @example
+ * ```ts
+ * createForm<OrderValues>({ type: "Order", config, defaults });
+ *
+ * const order = createFormController<OrderValues>("Order", "NewOrder", {
+ *   onSubmit: (values) => api.saveOrder(values),
+ * });
+ *
+ * const unsubscribe = order.subscribe(() => render(order.getState()));
+ * order.setValue("name", "Apple");
+ * await order.submit();
+ * ```
+ */
+
+import type {
+  FormState,
+  FieldProps,
+  TranslateFn,
+  NestedKeyOf,
+  NestedValueOf,
+  ArrayItemOf,
+  FieldArrayOperation,
+  ValidationError,
+  Listener,
+  Store,
+  WatchedValues,
+  DraftRestoreMode,
+} from "./types";
+import { createStore } from "./createStore";
+import { mergeState } from "../utils/materialize";
+import { decodeDraft, flushDrafts } from "../utils/persistence";
+import { readDraft, resolvePersistOptions } from "./drafts";
+import { parseValue } from "../utils/parser";
+import { createFieldArrayItem } from "../utils/fieldArray";
+import { getFieldConfigByPath } from "../utils/pathUtils";
+
+import { createInitialState, type ActionContext } from "./actions/createInitialState";
+import { formReducer, type FormAction } from "./actions/formReducer";
+import { isFormValid } from "./actions/isFormValid";
+import { getVisibleFieldKeys } from "./actions/getVisibleFieldKeys";
+import { createAsyncValidationRunner } from "./validation/asyncValidation";
+import { isErrorVisible, type FieldInteraction } from "./validation/validationMode";
+import { FORM_ERROR_KEY } from "./validation/formValidation";
+import { translateError } from "./compute/translateError";
+import { defaultTranslate } from "./compute/defaultTranslate";
+import { watchValues } from "./watch";
+import { applyMiddleware } from "./middleware/applyMiddleware";
+import { persistMiddleware } from "./middleware/persistMiddleware";
+import {
+  createFormHistory,
+  EMPTY_HISTORY_STATE,
+  type FormHistoryState,
+} from "./history/formHistory";
+import {
+  getFormDefinition,
+  getRegistryEntry,
+  getRegistryKey,
+  setRegistryEntry,
+} from "./registry";
+
+// ============================================================================
+// Типы
+// ============================================================================
+
+/**
+ * Опции экземпляра формы
+ */
+export interface FormControllerOptions<TValues extends Record<string, any>> {
+  /** Данные с сервера — мержатся в store при каждом изменении ссылки */
+  initial?: Partial<TValues>;
+  /** Отправка формы */
+  onSubmit?: (values: TValues) => Promise<any> | void;
+  /** Трансформация перед валидацией и отправкой */
+  beforeSubmit?: (values: TValues) => Promise<TValues> | TValues;
+  /** Сайд-эффекты после успешного submit */
+  afterSubmit?: (result: any, reset: () => void) => Promise<void> | void;
+  /**
+   * Вызывается при изменении любого поля ПОСЛЕ пересчёта computed.
+   * Можно вернуть Partial для мержа в values.
+   */
+  onChange?: (params: {
+    fieldKey: keyof TValues;
+    newValue: any;
+    previousValue: any;
+    allValues: TValues;
+  }) => Partial<TValues> | void | Promise<Partial<TValues> | void>;
+
+  /**
+   * Переопределить авто-persist key (по умолчанию type:id)
+   * Учитывается только при создании экземпляра
+   */
+  persistId?: string;
+
+  /**
+   * Восстановление черновика: "auto" (по умолчанию) | "prompt" | "never"
+   * С "prompt" найденный черновик доступен как pendingDraft до restoreDraft / discardDraft.
+   * Учитывается только при создании экземпляра
+   */
+  restoreMode?: DraftRestoreMode;
+
+  /** Функция перевода (по умолчанию key => key) */
+  translate?: TranslateFn;
+}
+
+/**
+ * Действия над формой — общие для controller и useForm
+ */
+export interface FormActions<TValues extends Record<string, any>> {
+  /** Получить пропсы поля
+   * Поддерживает вложенные пути с автокомплитом: getFieldProps("passport.number")
+   */
+  getFieldProps: <K extends NestedKeyOf<TValues>>(
+    key: K
+  ) => FieldProps<NestedValueOf<TValues, K>>;
+
+  /** Установить значение поля
+   * Поддерживает вложенные пути с автокомплитом: setValue("passport.number", "123")
+   */
+  setValue: <K extends NestedKeyOf<TValues>>(
+    key: K,
+    value: NestedValueOf<TValues, K>
+  ) => void;
+
+  /** Установить несколько значений */
+  setValues: (values: Partial<TValues>) => void;
+
+  /** Добавить элемент в конец массива (без value — по шаблону item) */
+  append: <K extends NestedKeyOf<TValues>>(
+    key: K,
+    value?: ArrayItemOf<NestedValueOf<TValues, K>>
+  ) => void;
+  /** Вставить элемент в массив по индексу (без value — по шаблону item) */
+  insert: <K extends NestedKeyOf<TValues>>(
+    key: K,
+    index: number,
+    value?: ArrayItemOf<NestedValueOf<TValues, K>>
+  ) => void;
+  /** Удалить элемент массива по индексу */
+  remove: (key: NestedKeyOf<TValues>, index: number) => void;
+  /** Переместить элемент массива с from на to */
+  move: (key: NestedKeyOf<TValues>, from: number, to: number) => void;
+  /** Поменять местами два элемента массива */
+  swap: (key: NestedKeyOf<TValues>, indexA: number, indexB: number) => void;
+
+  /** Сбросить форму */
+  reset: (next?: Partial<TValues>) => void;
+  /**
+   * Отправить форму
+   * Не выбрасывает ошибок: результат — в status / lastSubmitError / lastSubmitResult
+   */
+  submit: () => Promise<void>;
+  /** Получить список видимых полей */
+  getVisibleFields: () => Array<string>;
+
+  /**
+   * Установить внешнюю ошибку поля (например, из ответа сервера)
+   * Сбрасывается, когда пользователь меняет поле, и при следующем submit
+   *
+   * @example
+   * // 422 { field: "email", code: "taken" }
+   * setError("email", "server.email.taken");
+   */
+  setError: (path: NestedKeyOf<TValues> | typeof FORM_ERROR_KEY, error: ValidationError) => void;
+  /** Установить несколько внешних ошибок (undefined — удалить ошибку пути) */
+  setErrors: (
+    errors: Partial<Record<NestedKeyOf<TValues> | typeof FORM_ERROR_KEY, ValidationError | undefined>>
+  ) => void;
+  /** Удалить внешние ошибки указанных путей (без аргумента — все) */
+  clearErrors: (paths?: Array<NestedKeyOf<TValues> | typeof FORM_ERROR_KEY>) => void;
+
+  /** Отменить последнюю правку (нужен CreateFormConfig.history) */
+  undo: () => void;
+  /** Вернуть отменённую правку */
+  redo: () => void;
+  /** Очистить историю правок */
+  clearHistory: () => void;
+
+  /** Восстановить черновик, ожидающий решения (restoreMode: "prompt") */
+  restoreDraft: () => void;
+  /** Отказаться от черновика, ожидающего решения — он удаляется из хранилища */
+  discardDraft: () => void;
+}
+
+/**
+ * Экземпляр формы
+ */
+export interface FormController<TValues extends Record<string, any>> extends FormActions<TValues> {
+  /** Тип формы */
+  readonly type: string;
+  /** ID экземпляра */
+  readonly id: string;
+  /** Ключ в registry ("type:id") */
+  readonly key: string;
+  /** Store формы (escape hatch) */
+  readonly store: Store<FormState<TValues>>;
+  /** canUndo / canRedo (без CreateFormConfig.history — всегда false) */
+  readonly history: Store<FormHistoryState>;
+
+  /** Текущее состояние */
+  getState: () => FormState<TValues>;
+  /** Подписаться на изменения состояния (возвращает отписку) */
+  subscribe: (listener: Listener) => () => void;
+
+  /**
+   * Следить за значением по пути — callback вызывается только при его изменении
+   * (глубокое сравнение: для "passport" — при изменении любого вложенного поля)
+   *
+   * @returns функция отписки
+   *
+   * @example
+   * controller.watch("country", (country) => loadCities(country));
+   */
+  watch<K extends NestedKeyOf<TValues>>(
+    path: K,
+    callback: (value: NestedValueOf<TValues, K>, prevValue: NestedValueOf<TValues, K>) => void
+  ): () => void;
+  /**
+   * Следить за несколькими путями — значения приходят кортежем
+   *
+   * @example
+   * controller.watch(["passport.issueDate", "passport.expiryDate"], ([issue, expiry]) => ...);
+   */
+  watch<const K extends ReadonlyArray<NestedKeyOf<TValues>>>(
+    paths: K,
+    callback: (values: WatchedValues<TValues, K>, prevValues: WatchedValues<TValues, K>) => void
+  ): () => void;
+
+  /** Ввод пользователя: парсинг по dataType, setValue и показ ошибки по validationMode */
+  changeField: (key: NestedKeyOf<TValues>, value: any) => void;
+  /** Поле получило фокус (visitedFields) */
+  focusField: (key: NestedKeyOf<TValues>) => void;
+  /** Поле потеряло фокус (touchedFields, validationMode onBlur/onTouched) */
+  blurField: (key: NestedKeyOf<TValues>) => void;
+
+  /** Форма валидна (нет ошибок в видимых полях) */
+  isValid: () => boolean;
+  /** Ошибка всей формы (FORM_ERROR_KEY), переведённая */
+  getFormError: () => string | undefined;
+
+  /** Мержит данные с сервера, не перезаписывая изменённые поля */
+  mergeInitial: (initial: Partial<TValues>) => void;
+  /**
+   * Обновляет опции: колбэки заменяются, initial мержится при смене ссылки,
+   * translate пересчитывает тексты
+   */
+  setOptions: (options: FormControllerOptions<TValues>) => void;
+  /** Сменить функцию перевода (другая локаль) — пересчитывает тексты полей */
+  setTranslate: (translate: TranslateFn) => void;
+  /**
+   * Выполнить действие через middleware и formReducer
+   *
+   * @example
+   * controller.dispatch({ type: "setFieldValue", key: "name", value: "Apple" });
+   */
+  dispatch: (action: FormAction<TValues>) => void;
+  /** Записать отложенный черновик (persist.write) сейчас */
+  flushDraft: () => Promise<void>;
+  /** Освобождает ресурсы (асинхронная валидация, middleware). Вызывается из removeFormStore */
+  dispose: () => void;
+}
+
+// ============================================================================
+// createFormController
+// ============================================================================
+
+/**
+ * Возвращает экземпляр формы type:id, создавая его при первом вызове
+ *
+ * @param type — тип формы (CreateFormConfig.type, форма должна быть создана через createForm)
+ * @param id — ID экземпляра ("NewOrder", order.id, и т.д.)
+ * @param options — опции экземпляра; для существующего экземпляра применяются через setOptions
+ */
+export function createFormController<TValues extends Record<string, any>>(
+  type: string,
+  id: string,
+  options?: FormControllerOptions<TValues>
+): FormController<TValues> {
+  const key = getRegistryKey(type, id);
+  const existing = getRegistryEntry(key);
+
+  if (existing) {
+    const controller = existing.controller as FormController<TValues>;
+    if (options) {
+      controller.setOptions(options);
+    }
+    return controller;
+  }
+
+  const controller = buildFormController<TValues>(type, id, options);
+  setRegistryEntry(key, { store: controller.store, controller, refCount: 0 });
+
+  if (options) {
+    controller.setOptions(options);
+  }
+
+  return controller;
+}
+
+/**
+ * Создаёт новый экземпляр формы (без registry)
+ */
+function buildFormController<TValues extends Record<string, any>>(
+  type: string,
+  id: string,
+  options: FormControllerOptions<TValues> | undefined
+): FormController<TValues> {
+  const definition = getFormDefinition<TValues>(type);
+
+  if (!definition) {
+    throw new Error(
+      `[Palistor] Unknown form type: "${type}"\n` +
+      `Hint: call createForm({ type: "${type}", ... }) before creating a controller`
+    );
+  }
+
+  const { config, defaults, requiredError, validationMode, validate, schema, middleware = [] } =
+    definition;
+  const key = getRegistryKey(type, id);
+  const persistKey = options?.persistId ?? key;
+
+  const persistOptions = resolvePersistOptions(definition.persist);
+  const persistAdapter = persistOptions?.adapter;
+  const restoreMode = persistOptions ? options?.restoreMode ?? "auto" : "never";
+
+  let translate: TranslateFn = options?.translate ?? defaultTranslate;
+  let callbacks: FormControllerOptions<TValues> = {};
+  let prevInitial: Partial<TValues> | undefined;
+
+  /** ActionContext с актуальным translate */
+  const getActionCtx = (): ActionContext<TValues> => ({
+    config,
+    translate,
+    locale: "auto",
+    requiredError,
+    validationMode,
+    validate,
+    schema,
+    defaults,
+  });
+
+  // ==========================================================================
+  // Store из defaults + черновик
+  // ==========================================================================
+
+  /** Черновик из хранилища → текущая версия (немигрируемый и просроченный удаляются) */
+  const loadDraft = (raw: unknown) =>
+    persistOptions && readDraft<TValues>(raw, { key: persistKey, type, id }, persistOptions);
+
+  // Синхронное хранилище — черновик сразу; асинхронное или шифрование — hydrating до загрузки
+  const isHydrating =
+    restoreMode !== "never" &&
+    !!persistAdapter &&
+    (!persistAdapter.getSync || !!persistOptions?.encryption);
+  const draft =
+    restoreMode === "never" || isHydrating
+      ? undefined
+      : loadDraft(persistAdapter?.getSync?.(persistKey));
+  const persisted = restoreMode === "auto" ? draft?.values : undefined;
+  const mergedValues = mergeState(defaults, persisted);
+  const initialState = createInitialState(mergedValues, undefined, getActionCtx());
+  const store = createStore<FormState<TValues>>(
+    isHydrating
+      ? { ...initialState, hydrating: true }
+      : restoreMode === "prompt" && draft
+        ? { ...initialState, pendingDraft: draft }
+        : initialState
+  );
+
+  // ==========================================================================
+  // dispatch: действие → middleware → formReducer
+  // ==========================================================================
+
+  const disposers: Array<() => void> = [];
+
+  // persist — внешний: видит итоговое состояние после пользовательских middleware
+  const handleAction = applyMiddleware<TValues>(
+    (action, state) => formReducer(state, action, getActionCtx()),
+    persistOptions
+      ? [
+          persistMiddleware<TValues>(persistKey, {
+            adapter: persistOptions.adapter,
+            version: persistOptions.version,
+            encryption: persistOptions.encryption,
+            write: persistOptions.write,
+            ttl: persistOptions.ttl,
+            draft: restoreMode === "auto" ? draft : undefined,
+          }),
+          ...middleware,
+        ]
+      : middleware,
+    {
+      key,
+      type,
+      id,
+      getActionCtx,
+      getState: store.getState,
+      dispatch: (action) => dispatch(action),
+      onDispose: (cleanup) => disposers.push(cleanup),
+    }
+  );
+
+  const dispatch = (action: FormAction<TValues>) => {
+    store.setState((prev) => handleAction(action, prev));
+  };
+
+  const asyncValidation = createAsyncValidationRunner(store, getActionCtx, dispatch);
+
+  // ==========================================================================
+  // История правок (opt-in)
+  // ==========================================================================
+
+  const history = definition.history
+    ? createFormHistory(dispatch, definition.history === true ? {} : definition.history)
+    : undefined;
+  const historyStore = history?.store ?? createStore<FormHistoryState>(EMPTY_HISTORY_STATE);
+
+  // ==========================================================================
+  // Загрузка черновика из асинхронного хранилища (или с расшифровкой)
+  // ==========================================================================
+
+  let isDisposed = false;
+
+  if (persistAdapter && isHydrating) {
+    persistAdapter
+      .get(persistKey)
+      .then((raw) => decodeDraft(raw, persistOptions?.encryption))
+      .then(
+        (raw) => {
+          if (isDisposed) return;
+          dispatch({
+            type: "hydrateForm",
+            draft: loadDraft(raw),
+            prompt: restoreMode === "prompt",
+            initial: prevInitial,
+          });
+        },
+        (error) => {
+          // eslint-disable-next-line no-console
+          console.error("[Palistor] Failed to load persisted state:", error);
+          if (!isDisposed) dispatch({ type: "hydrateForm" });
+        }
+      );
+  }
+
+  /**
+   * Выполняет правку values и записывает её в историю
+   * amend — дописать в последнюю запись поля (значения, производные от правки)
+   */
+  const recordEdit = (key: string | undefined, update: () => void, amend?: boolean) => {
+    const prevValues = store.getState().values;
+    update();
+    history?.record(key, prevValues, store.getState().values, amend);
+  };
+
+  // ==========================================================================
+  // Values
+  // ==========================================================================
+
+  /** Обновляет значение; interaction — событие ввода, применяется тем же dispatch */
+  const updateValue = (key: string, value: any, interaction?: FieldInteraction) => {
+    const fieldConfig = getFieldConfigByPath(config, key);
+
+    // Если есть setter — используем его (для связанных изменений)
+    if (fieldConfig?.setter) {
+      const currentValues = store.getState().values;
+      fieldConfig.setter(value, currentValues, (nextValues) => {
+        recordEdit(key, () =>
+          dispatch({ type: "setFieldValues", values: nextValues, key, interaction })
+        );
+      });
+      return;
+    }
+
+    // Получаем previousValue по пути (для вложенных полей)
+    const previousValue = key
+      .split(".")
+      .reduce((obj: any, k) => obj?.[k], store.getState().values);
+
+    // Обычное обновление (поддерживает вложенные пути)
+    recordEdit(key, () => dispatch({ type: "setFieldValue", key, value, interaction }));
+
+    // onChange callback
+    const { onChange } = callbacks;
+    if (onChange) {
+      Promise.resolve(
+        onChange({
+          fieldKey: key,
+          newValue: value,
+          previousValue,
+          allValues: store.getState().values,
+        })
+      )
+        .then((result) => {
+          if (result) {
+            // Undo откатывает правку вместе с производными значениями
+            recordEdit(key, () => dispatch({ type: "setFieldValues", values: result }), true);
+          }
+        })
+        .catch((err) => {
+          // eslint-disable-next-line no-console
+          console.error("[Palistor] onChange error:", err);
+        });
+    }
+  };
+
+  const setValue = (key: string, value: any) => updateValue(key, value);
+
+  const setValues = (values: Partial<TValues>) => {
+    recordEdit(undefined, () => dispatch({ type: "setFieldValues", values }));
+  };
+
+  const mergeInitial = (initial: Partial<TValues>) => {
+    // Мержим initial в store, не перезаписывая dirty-поля
+    dispatch({ type: "mergeInitialValues", initial });
+  };
+
+  // ==========================================================================
+  // Field arrays
+  // ==========================================================================
+
+  const updateArray = (key: string, operation: FieldArrayOperation) => {
+    recordEdit(undefined, () => dispatch({ type: "updateFieldArray", key, operation }));
+  };
+
+  const createItem = (key: string, value: any) =>
+    value === undefined ? createFieldArrayItem(getFieldConfigByPath(config, key)) : value;
+
+  // ==========================================================================
+  // Взаимодействие с полем
+  // ==========================================================================
+
+  const changeField = (key: string, value: any) => {
+    const fieldCfg = getFieldConfigByPath(config, key);
+    const dataType = fieldCfg?.types?.dataType;
+
+    // Ввод пользователя — показ ошибки по validationMode в том же обновлении
+    updateValue(key, dataType ? parseValue(value, dataType) : value, "change");
+  };
+
+  const focusField = (key: string) => {
+    dispatch({ type: "applyFieldInteraction", key, interaction: "focus" });
+  };
+
+  const blurField = (key: string) => {
+    dispatch({ type: "applyFieldInteraction", key, interaction: "blur" });
+  };
+
+  // ==========================================================================
+  // Reset / submit
+  // ==========================================================================
+
+  const reset = (next?: Partial<TValues>) => {
+    // Черновик очищает persistMiddleware
+    dispatch({ type: "resetForm", values: next });
+    history?.clear();
+  };
+
+  const submit = async () => {
+    // Повторный вызов во время отправки игнорируется
+    const { status } = store.getState();
+    if (status === "validating" || status === "submitting") {
+      return;
+    }
+
+    const { onSubmit, beforeSubmit, afterSubmit } = callbacks;
+    let vals = store.getState().values;
+
+    dispatch({ type: "setSubmitStatus", status: "validating", details: { at: Date.now() } });
+
+    // Внешние ошибки относятся к прошлой отправке — сервер вернёт их снова
+    dispatch({ type: "clearExternalErrors" });
+
+    try {
+      // beforeSubmit
+      if (beforeSubmit) {
+        vals = await beforeSubmit(vals);
+        dispatch({ type: "setFieldValues", values: vals });
+      }
+
+      // Дожидаемся асинхронных проверок (отложенные запускаются сразу)
+      await asyncValidation.validateAll();
+
+      // Включаем показ ошибок и валидируем
+      dispatch({ type: "enableShowErrors" });
+
+      const currentState = store.getState();
+      if (!isFormValid(currentState)) {
+        dispatch({ type: "setSubmitStatus", status: "idle" });
+        return;
+      }
+
+      // Отправка
+      dispatch({ type: "setSubmitStatus", status: "submitting" });
+
+      const result = await onSubmit?.(currentState.values);
+      await afterSubmit?.(result, reset);
+
+      // Черновик после успешной отправки очищает persistMiddleware
+      dispatch({
+        type: "setSubmitStatus",
+        status: "succeeded",
+        details: { result, at: Date.now() },
+      });
+    } catch (error) {
+      // Ошибка не пробрасывается — доступна через status / lastSubmitError
+      dispatch({ type: "setSubmitStatus", status: "failed", details: { error, at: Date.now() } });
+    }
+  };
+
+  // ==========================================================================
+  // Внешние ошибки (ответ сервера и т.п.)
+  // ==========================================================================
+
+  const setErrors = (errors: Record<string, ValidationError | undefined>) => {
+    dispatch({ type: "setExternalErrors", errors });
+  };
+
+  const clearErrors = (paths?: string[]) => {
+    dispatch({ type: "clearExternalErrors", paths });
+  };
+
+  // ==========================================================================
+  // Чтение
+  // ==========================================================================
+
+  const getFieldProps = (key: string): FieldProps<any> => {
+    const currentState = store.getState();
+    const fieldState = currentState.fields[key];
+
+    if (!fieldState) {
+      // Более информативная ошибка для отладки
+      const availableKeys = Object.keys(currentState.fields);
+      const configKeys = Object.keys(config);
+
+      throw new Error(
+        `[Palistor] No field state found for key: "${key}"\n` +
+        `Available fields in state: ${availableKeys.join(", ")}\n` +
+        `Available fields in config: ${configKeys.join(", ")}\n` +
+        `Hint: For nested fields, use dot notation (e.g., "passport.number")`
+      );
+    }
+
+    const showError = isErrorVisible(currentState, key);
+
+    return {
+      ...fieldState,
+      onValueChange: (val: any) => changeField(key, val),
+      onFocus: () => focusField(key),
+      onBlur: () => blurField(key),
+      isInvalid: !!(showError && fieldState.error),
+      errorMessage: showError ? fieldState.error : undefined,
+      isDisabled: fieldState.isDisabled || currentState.submitting,
+    };
+  };
+
+  const getFormError = (): string | undefined => {
+    const { externalErrors, formErrors } = store.getState();
+    return translateError(
+      externalErrors[FORM_ERROR_KEY] ?? formErrors[FORM_ERROR_KEY],
+      translate
+    ).error;
+  };
+
+  // ==========================================================================
+  // Опции и жизненный цикл
+  // ==========================================================================
+
+  const setTranslate = (next: TranslateFn) => {
+    if (next === translate) return;
+    translate = next;
+    dispatch({ type: "refreshTranslations" });
+  };
+
+  const setOptions = (next: FormControllerOptions<TValues>) => {
+    callbacks = next;
+
+    if (next.translate) {
+      setTranslate(next.translate);
+    }
+
+    if (next.initial && !Object.is(prevInitial, next.initial)) {
+      prevInitial = next.initial;
+      mergeInitial(next.initial);
+    }
+  };
+
+  const dispose = () => {
+    isDisposed = true;
+    asyncValidation.dispose();
+    disposers.splice(0).forEach((cleanup) => cleanup());
+  };
+
+  return {
+    type,
+    id,
+    key,
+    store,
+    history: historyStore,
+    getState: store.getState,
+    subscribe: store.subscribe,
+    watch: (paths: string | ReadonlyArray<string>, callback: (value: any, prevValue: any) => void) =>
+      watchValues(store, paths, callback),
+    getFieldProps: getFieldProps as FormController<TValues>["getFieldProps"],
+    setValue,
+    setValues,
+    append: (key: string, value?: any) =>
+      updateArray(key, { type: "append", value: createItem(key, value) }),
+    insert: (key: string, index: number, value?: any) =>
+      updateArray(key, { type: "insert", index, value: createItem(key, value) }),
+    remove: (key, index) => updateArray(key, { type: "remove", index }),
+    move: (key, from, to) => updateArray(key, { type: "move", from, to }),
+    swap: (key, indexA, indexB) => updateArray(key, { type: "swap", indexA, indexB }),
+    reset,
+    submit,
+    getVisibleFields: () => getVisibleFieldKeys(store.getState()),
+    setError: (path, error) => setErrors({ [path]: error }),
+    setErrors: setErrors as FormController<TValues>["setErrors"],
+    clearErrors,
+    undo: () => history?.undo(),
+    redo: () => history?.redo(),
+    clearHistory: () => history?.clear(),
+    changeField,
+    focusField,
+    blurField,
+    isValid: () => isFormValid(store.getState()),
+    getFormError,
+    mergeInitial,
+    setOptions,
+    setTranslate,
+    dispatch,
+    flushDraft: () => flushDrafts(persistKey),
+    restoreDraft: () => dispatch({ type: "restoreDraft" }),
+    discardDraft: () => dispatch({ type: "discardDraft" }),
+    dispose,
+  };
+}
@@ -53,3 +53,38 @@ export function createStore<T>(initialState: T): Store<T> {
     subscribe,
   };
 }
+
+/**
+ * Подписка на выбранную часть состояния store
+ *
+ * listener вызывается, только когда результат selector изменился
+ * (по equalityFn, по умолчанию Object.is)
+ *
+ * @returns функция отписки
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeWithSelector(
+ *   store,
+ *   (state) => state.values.country,
+ *   (country, prevCountry) => loadCities(country)
+ * );
+ * ```
+ */
+export function subscribeWithSelector<T, U>(
+  store: Store<T>,
+  selector: (state: T) => U,
+  listener: (selected: U, prevSelected: U) => void,
+  equalityFn: (a: U, b: U) => boolean = Object.is
+): () => void {
+  let selected = selector(store.getState());
+
+  return store.subscribe(() => {
+    const nextSelected = selector(store.getState());
+    if (equalityFn(selected, nextSelected)) return;
+
+    const prevSelected = selected;
+    selected = nextSelected;
+    listener(nextSelected, prevSelected);
+  });
+}
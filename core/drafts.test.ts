@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createForm } from "./createForm";
+import { listDrafts, removeDraft } from "./drafts";
+import { removeFormStore } from "./registry";
+import type { FormConfig, PersistedDraft } from "./types";
+import { createDraftEnvelope, memoryAdapter } from "../utils/persistence";
+
+type OrderValues = { title: string };
+
+const config: FormConfig<OrderValues> = { title: { value: "" } };
+
+describe("drafts", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should list drafts by type without instances and drop expired ones", async () => {
+    vi.useFakeTimers({ now: 10_000 });
+    const adapter = memoryAdapter({
+      "ListedOrder:1": createDraftEnvelope({ title: "First" }, 0, { createdAt: 1_000 }),
+      "ListedOrder:2": { version: 0, createdAt: 1_000, updatedAt: 9_000, values: { title: "Second" } },
+      "ListedOrder:old": { version: 0, createdAt: 1_000, updatedAt: 2_000, expiresAt: 5_000, values: {} },
+      "OtherForm:1": createDraftEnvelope({ title: "Other" }, 0),
+    });
+    createForm<OrderValues>({
+      type: "ListedOrder",
+      config,
+      defaults: { title: "" },
+      persist: { adapter, ttl: 60_000 },
+    });
+
+    const drafts = await listDrafts<OrderValues>("ListedOrder");
+
+    expect(drafts.map(({ id, values }) => [id, values.title])).toEqual([
+      ["1", "First"],
+      ["2", "Second"],
+    ]);
+    expect(drafts[0]).toMatchObject({ key: "ListedOrder:1", createdAt: 1_000, updatedAt: 10_000 });
+    await vi.waitFor(async () => expect(await adapter.get("ListedOrder:old")).toBeUndefined());
+
+    await removeDraft("ListedOrder", "2");
+    expect(await listDrafts("ListedOrder")).toHaveLength(1);
+    await expect(listDrafts("MissingForm")).rejects.toThrow("[Palistor] Unknown form type");
+  });
+
+  it("should not list forms without unsaved changes", async () => {
+    const adapter = memoryAdapter();
+    const { createController } = createForm<OrderValues>({
+      type: "CleanOrder",
+      config,
+      defaults: { title: "" },
+      persist: adapter,
+    });
+
+    const opened = createController("42", { initial: { title: "From server" } });
+    expect(opened.getState().dirty).toBe(false);
+    expect(await listDrafts("CleanOrder")).toEqual([]);
+
+    opened.setValue("title", "Edited");
+    expect((await listDrafts("CleanOrder")).map(({ id }) => id)).toEqual(["42"]);
+
+    // Правка вернула значение с сервера — черновик больше не нужен
+    opened.setValue("title", "From server");
+    expect(await listDrafts("CleanOrder")).toEqual([]);
+
+    removeFormStore("CleanOrder", "42");
+  });
+
+  it("should keep draft pending until restore or discard in prompt mode", async () => {
+    vi.useFakeTimers({ now: 5_000 });
+    const adapter = memoryAdapter({
+      "PromptOrder:1": createDraftEnvelope({ title: "Unsaved" }, 0, { createdAt: 1_000 }),
+      "PromptOrder:2": createDraftEnvelope({ title: "Unsaved" }, 0),
+    });
+    const { createController } = createForm<OrderValues>({
+      type: "PromptOrder",
+      config,
+      defaults: { title: "" },
+      persist: { adapter, ttl: 60_000 },
+    });
+
+    const restored = createController("1", { restoreMode: "prompt" });
+    expect(restored.getState().values.title).toBe("");
+    expect(restored.getState().pendingDraft).toMatchObject({ id: "1", values: { title: "Unsaved" } });
+
+    // Пока решение не принято, черновик не перезаписывается
+    restored.setValue("title", "Typed");
+    expect(adapter.getSync?.<PersistedDraft>("PromptOrder:1")?.values.title).toBe("Unsaved");
+
+    vi.setSystemTime(6_000);
+    restored.restoreDraft();
+    expect(restored.getState()).toMatchObject({ values: { title: "Unsaved" }, dirty: false });
+    expect(restored.getState().pendingDraft).toBeUndefined();
+
+    restored.setValue("title", "Unsaved, edited");
+    expect(adapter.getSync?.("PromptOrder:1")).toMatchObject({
+      createdAt: 1_000,
+      updatedAt: 6_000,
+      expiresAt: 66_000,
+      values: { title: "Unsaved, edited" },
+    });
+
+    const discarded = createController("2", { restoreMode: "prompt" });
+    discarded.discardDraft();
+    expect(discarded.getState().pendingDraft).toBeUndefined();
+    expect(adapter.getSync?.("PromptOrder:2")).toBeUndefined();
+
+    ["1", "2"].forEach((id) => removeFormStore("PromptOrder", id));
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Черновики вне registry
+ *
+ * - настройки persist из CreateFormConfig (адаптер по умолчанию, версия, ttl)
+ * - чтение черновика: миграции, удаление просроченных и немигрируемых
+ * - listDrafts / removeDraft — экран «У вас 3 несохранённых заказа»
+ *   без создания экземпляров форм
+ */
+
+import type {
+  CreateFormConfig,
+  DraftDescriptor,
+  FormPersistOptions,
+  PersistenceAdapter,
+} from "./types";
+import { getFormDefinition, getRegistryKey } from "./registry";
+import { decodeDraft, localStorageAdapter, readDraftEnvelope } from "../utils/persistence";
+
+/** Настройки persist с выбранным адаптером */
+export interface ResolvedPersistOptions extends FormPersistOptions {
+  adapter: PersistenceAdapter;
+  version: number;
+}
+
+/**
+ * persist: false | адаптер | { adapter, version, migrations, ... } → настройки
+ * undefined — черновики отключены
+ */
+export function resolvePersistOptions(
+  persist: CreateFormConfig<any>["persist"]
+): ResolvedPersistOptions | undefined {
+  if (persist === false) return undefined;
+
+  const options: FormPersistOptions = persist && "get" in persist ? { adapter: persist } : persist ?? {};
+  return {
+    ...options,
+    adapter: options.adapter ?? localStorageAdapter(),
+    version: options.version ?? 0,
+  };
+}
+
+/**
+ * Значение из хранилища → черновик текущей версии
+ * Немигрируемый и просроченный черновики удаляются из хранилища
+ */
+export function readDraft<TValues extends Record<string, any>>(
+  raw: unknown,
+  { key, type, id }: Pick<DraftDescriptor, "key" | "type" | "id">,
+  { adapter, version, migrations }: ResolvedPersistOptions
+): DraftDescriptor<TValues> | undefined {
+  const result = readDraftEnvelope<TValues>(raw, version, migrations);
+
+  if (result.status === "dropped") {
+    // eslint-disable-next-line no-console
+    console.warn(`[Palistor] Draft "${key}" dropped: ${result.reason}`);
+  }
+
+  if (result.status === "dropped" || result.status === "expired") {
+    adapter.remove(key).catch(() => undefined);
+  }
+
+  if (result.status !== "ok") return undefined;
+
+  const { createdAt, updatedAt, expiresAt, values } = result;
+  return { key, type, id, createdAt, updatedAt, expiresAt, values };
+}
+
+function getPersistOptions(type: string): ResolvedPersistOptions | undefined {
+  const definition = getFormDefinition(type);
+
+  if (!definition) {
+    throw new Error(
+      `[Palistor] Unknown form type: "${type}"\n` +
+      `Hint: call createForm({ type: "${type}", ... }) before listing drafts`
+    );
+  }
+
+  return resolvePersistOptions(definition.persist);
+}
+
+/**
+ * Черновики формы по type — без экземпляров в registry
+ *
+ * Учитываются ключи "type:id" (черновики с persistId другого вида не попадают).
+ * Просроченные и немигрируемые черновики удаляются.
+ *
+ * @returns черновики, последний изменённый — первый
+ *
+ * @example
+ * const drafts = await listDrafts<OrderValues>("Order");
+ * // "У вас 3 несохранённых заказа" → ссылки на /orders/{draft.id}
+ */
+export async function listDrafts<TValues extends Record<string, any> = Record<string, any>>(
+  type: string
+): Promise<Array<DraftDescriptor<TValues>>> {
+  const options = getPersistOptions(type);
+  if (!options) return [];
+
+  const prefix = getRegistryKey(type, "");
+  const keys = (await options.adapter.list()).filter((key) => key.startsWith(prefix));
+
+  const drafts = await Promise.all(
+    keys.map(async (key) => {
+      try {
+        const raw = await decodeDraft(await options.adapter.get(key), options.encryption);
+        return readDraft<TValues>(raw, { key, type, id: key.slice(prefix.length) }, options);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error("[Palistor] Failed to load persisted state:", error);
+        return undefined;
+      }
+    })
+  );
+
+  return drafts
+    .filter((draft): draft is DraftDescriptor<TValues> => draft !== undefined)
+    .sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
+}
+
+/**
+ * Удаляет черновик экземпляра "type:id" из хранилища
+ *
+ * @example
+ * await removeDraft("Order", draft.id); // «Удалить» в списке черновиков
+ */
+export async function removeDraft(type: string, id: string): Promise<void> {
+  await getPersistOptions(type)?.adapter.remove(getRegistryKey(type, id));
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createForm } from "../createForm";
+import { removeFormStore } from "../registry";
+import type { FormConfig } from "../types";
+
+type ProfileValues = { name: string; passport: { number: string } };
+
+const config: FormConfig<ProfileValues> = {
+  name: { value: "" },
+  passport: { nested: true, number: { value: "" } },
+};
+
+const { createController } = createForm<ProfileValues>({
+  type: "HistoryProfile",
+  config,
+  defaults: { name: "", passport: { number: "" } },
+  history: { coalesceMs: 500 },
+});
+
+describe("form history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    removeFormStore("HistoryProfile", "1");
+  });
+
+  it("should coalesce rapid keystrokes in the same field", () => {
+    const form = createController("1");
+
+    form.setValue("name", "A");
+    form.setValue("name", "An");
+    form.setValue("name", "Ann");
+    vi.advanceTimersByTime(1000);
+    form.setValue("name", "Anna");
+
+    form.undo();
+    expect(form.getState().values.name).toBe("Ann");
+    form.undo();
+    expect(form.getState().values.name).toBe("");
+    expect(form.history.getState()).toEqual({ canUndo: false, canRedo: true });
+  });
+
+  it("should redo nested edits and recompute field states", () => {
+    const form = createController("1");
+
+    form.setValue("passport.number", "AB123");
+    form.undo();
+    expect(form.getState().fields["passport.number"].value).toBe("");
+    expect(form.getState().dirty).toBe(false);
+
+    form.redo();
+    expect(form.getState().values.passport).toEqual({ number: "AB123" });
+    expect(form.getState().fields["passport.number"].value).toBe("AB123");
+    expect(form.history.getState()).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  it("should undo values derived by onChange together with the edit", async () => {
+    const form = createController("1", {
+      onChange: ({ fieldKey, newValue }) =>
+        fieldKey === "name" ? { passport: { number: `${newValue}-001` } } : undefined,
+    });
+
+    form.setValue("name", "Ann");
+    await vi.runAllTimersAsync();
+    expect(form.getState().values.passport.number).toBe("Ann-001");
+
+    form.undo();
+    expect(form.getState().values).toEqual({ name: "", passport: { number: "" } });
+    expect(form.history.getState()).toEqual({ canUndo: false, canRedo: true });
+
+    form.redo();
+    expect(form.getState().values).toEqual({ name: "Ann", passport: { number: "Ann-001" } });
+  });
+
+  it("should drop redo entries after a new edit and clear on reset", () => {
+    const form = createController("1");
+
+    form.setValues({ name: "Ann" });
+    form.undo();
+    form.setValue("passport.number", "X");
+    expect(form.history.getState().canRedo).toBe(false);
+
+    form.reset();
+    expect(form.history.getState()).toEqual({ canUndo: false, canRedo: false });
+  });
+});
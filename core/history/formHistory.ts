@@ -0,0 +1,156 @@
+/**
+ * История правок формы (undo / redo)
+ *
+ * Opt-in: включается через CreateFormConfig.history.
+ * - каждая правка (setValue / setValues / setter / массивы) — запись с патчем values
+ *   по корневым ключам: { before, after }
+ * - быстрый ввод в одно поле (интервал < coalesceMs) склеивается в одну запись
+ * - значения, производные от правки (onChange), дописываются в её запись
+ * - undo / redo применяют патч действием setFieldValues — fields пересчитываются как при вводе
+ * - состояние canUndo / canRedo — в отдельном store (подписка из useForm)
+ */
+
+import type { FormHistoryOptions, Store } from "../types";
+import type { FormAction } from "../actions/formReducer";
+import { createStore } from "../createStore";
+
+/** Максимум записей в истории по умолчанию */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/** Интервал склейки ввода в одно поле по умолчанию (мс) */
+export const DEFAULT_HISTORY_COALESCE_MS = 500;
+
+/**
+ * Доступность undo / redo
+ */
+export interface FormHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const EMPTY_HISTORY_STATE: FormHistoryState = { canUndo: false, canRedo: false };
+
+export interface FormHistory {
+  /** canUndo / canRedo */
+  store: Store<FormHistoryState>;
+  /**
+   * Записывает правку values
+   *
+   * @param key - путь поля (для склейки); undefined — правка не склеивается
+   * @param prevValues - values до правки
+   * @param nextValues - values после правки
+   * @param amend - дописать в последнюю запись поля key (производные значения onChange)
+   */
+  record: (
+    key: string | undefined,
+    prevValues: Record<string, any>,
+    nextValues: Record<string, any>,
+    amend?: boolean
+  ) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+}
+
+/** Одна запись истории */
+interface HistoryEntry {
+  /** Путь поля для склейки */
+  key?: string;
+  /** Время последней правки в записи */
+  at: number;
+  /** values по корневым ключам до правки */
+  before: Record<string, any>;
+  /** values по корневым ключам после правки */
+  after: Record<string, any>;
+}
+
+/**
+ * Создаёт историю правок формы
+ *
+ * @param dispatch - выполнение действий формы (controller.dispatch)
+ * @param options - limit и coalesceMs
+ */
+export function createFormHistory<TValues extends Record<string, any>>(
+  dispatch: (action: FormAction<TValues>) => void,
+  options: FormHistoryOptions = {}
+): FormHistory {
+  const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+  const coalesceMs = options.coalesceMs ?? DEFAULT_HISTORY_COALESCE_MS;
+
+  const store = createStore<FormHistoryState>(EMPTY_HISTORY_STATE);
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+
+  const sync = () => {
+    const { canUndo, canRedo } = store.getState();
+    if (canUndo === past.length > 0 && canRedo === future.length > 0) return;
+    store.setState({ canUndo: past.length > 0, canRedo: future.length > 0 });
+  };
+
+  const record: FormHistory["record"] = (key, prevValues, nextValues, amend = false) => {
+    const before: Record<string, any> = {};
+    const after: Record<string, any> = {};
+    let changed = false;
+
+    for (const rootKey of Object.keys(nextValues)) {
+      if (Object.is(prevValues[rootKey], nextValues[rootKey])) continue;
+      before[rootKey] = prevValues[rootKey];
+      after[rootKey] = nextValues[rootKey];
+      changed = true;
+    }
+
+    if (!changed) return;
+
+    const now = Date.now();
+    const last = past[past.length - 1];
+
+    // Быстрый ввод в то же поле или производные значения — продолжаем последнюю запись
+    if (
+      key !== undefined &&
+      last?.key === key &&
+      future.length === 0 &&
+      (amend || now - last.at < coalesceMs)
+    ) {
+      last.at = now;
+      last.after = { ...last.after, ...after };
+      last.before = { ...before, ...last.before };
+      return;
+    }
+
+    past = [...past, { key, at: now, before, after }].slice(-limit);
+    future = [];
+    sync();
+  };
+
+  const apply = (patch: Record<string, any>) => {
+    dispatch({ type: "setFieldValues", values: patch as Partial<TValues> });
+  };
+
+  const undo = () => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    past = past.slice(0, -1);
+    future = [...future, entry];
+    apply(entry.before);
+    sync();
+  };
+
+  const redo = () => {
+    const entry = future[future.length - 1];
+    if (!entry) return;
+
+    future = future.slice(0, -1);
+    past = [...past, entry];
+    apply(entry.after);
+    sync();
+  };
+
+  const clear = () => {
+    past = [];
+    future = [];
+    sync();
+  };
+
+  return { store, record, undo, redo, clear };
+}
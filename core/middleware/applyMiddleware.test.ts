@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { createForm } from "../createForm";
+import { removeFormStore } from "../registry";
+import type { FormConfig } from "../types";
+import type { FormAction } from "../actions/formReducer";
+import type { FormMiddleware } from "./applyMiddleware";
+
+type NoteValues = { title: string; locked: boolean };
+
+const config: FormConfig<NoteValues> = {
+  title: { value: "" },
+  locked: { value: false },
+};
+
+const calls: string[] = [];
+const actions: FormAction<NoteValues>[] = [];
+
+const outer: FormMiddleware<NoteValues> = (next) => (action, state) => {
+  calls.push(`outer:${action.type}`);
+  return next(action, state);
+};
+
+const recorder: FormMiddleware<NoteValues> = (next) => (action, state) => {
+  calls.push(`recorder:${action.type}`);
+  actions.push(action);
+  return next(action, state);
+};
+
+// Инвариант: заблокированную заметку нельзя менять
+const lock: FormMiddleware<NoteValues> = (next) => (action, state) => {
+  if (state.values.locked && action.type === "setFieldValue" && action.key === "title") {
+    return state;
+  }
+  return next(action, state);
+};
+
+const { createController } = createForm<NoteValues>({
+  type: "Note",
+  config,
+  defaults: { title: "", locked: false },
+  middleware: [outer, recorder, lock],
+});
+
+describe("applyMiddleware", () => {
+  it("should pass named actions through middleware in order", () => {
+    const controller = createController("order");
+    calls.length = 0;
+    actions.length = 0;
+
+    controller.setValue("title", "Draft");
+
+    expect(calls).toEqual(["outer:setFieldValue", "recorder:setFieldValue"]);
+    expect(actions).toEqual([{ type: "setFieldValue", key: "title", value: "Draft" }]);
+    expect(controller.getState().values.title).toBe("Draft");
+
+    removeFormStore("Note", "order");
+  });
+
+  it("should drop actions that middleware does not pass to next", () => {
+    const controller = createController("lock");
+
+    controller.setValue("locked", true);
+    controller.setValue("title", "Changed");
+    expect(controller.getState().values.title).toBe("");
+
+    controller.dispatch({ type: "resetForm" });
+    controller.setValue("title", "Changed");
+    expect(controller.getState().values.title).toBe("Changed");
+
+    removeFormStore("Note", "lock");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Middleware для действий формы
+ *
+ * Middleware оборачивает следующий обработчик (next) и может:
+ * - наблюдать действие и результат (логирование, аналитика, аудит)
+ * - изменить действие перед next или состояние после него (инварианты)
+ * - не вызывать next — действие отбрасывается
+ *
+ * @example
+ * ```ts
+ * const audit: FormMiddleware<OrderValues> = (next, api) => (action, state) => {
+ *   const nextState = next(action, state);
+ *   if (nextState !== state) auditLog.push({ form: api.key, action });
+ *   return nextState;
+ * };
+ *
+ * createForm<OrderValues>({ type: "Order", config, defaults, middleware: [audit] });
+ * ```
+ */
+
+import type { FormState } from "../types";
+import type { ActionContext } from "../actions/createInitialState";
+import type { FormAction } from "../actions/formReducer";
+
+/**
+ * Обработчик действия: (action, state) → новое состояние
+ */
+export type FormDispatchHandler<TValues extends Record<string, any>> = (
+  action: FormAction<TValues>,
+  state: FormState<TValues>
+) => FormState<TValues>;
+
+/**
+ * Экземпляр формы, для которого выполняется действие
+ */
+export interface FormMiddlewareApi<TValues extends Record<string, any>> {
+  /** Ключ в registry ("type:id") */
+  key: string;
+  /** Тип формы */
+  type: string;
+  /** ID экземпляра */
+  id: string;
+  /** Актуальный ActionContext (config, translate, ...) */
+  getActionCtx: () => ActionContext<TValues>;
+  /** Текущее состояние формы */
+  getState: () => FormState<TValues>;
+  /** Выполнить действие с начала цепочки (например, по команде извне) */
+  dispatch: (action: FormAction<TValues>) => void;
+  /** Зарегистрировать очистку ресурсов — вызывается в controller.dispose() */
+  onDispose: (cleanup: () => void) => void;
+}
+
+/**
+ * Middleware: (next, api) => (action, state) => state
+ */
+export type FormMiddleware<TValues extends Record<string, any> = any> = (
+  next: FormDispatchHandler<TValues>,
+  api: FormMiddlewareApi<TValues>
+) => FormDispatchHandler<TValues>;
+
+/**
+ * Собирает цепочку middleware вокруг обработчика
+ * Первый middleware — внешний: видит действие первым и результат последним
+ *
+ * @param handler - базовый обработчик (formReducer)
+ * @param middleware - список middleware
+ * @param api - экземпляр формы
+ */
+export function applyMiddleware<TValues extends Record<string, any>>(
+  handler: FormDispatchHandler<TValues>,
+  middleware: ReadonlyArray<FormMiddleware<TValues>>,
+  api: FormMiddlewareApi<TValues>
+): FormDispatchHandler<TValues> {
+  return middleware.reduceRight<FormDispatchHandler<TValues>>(
+    (next, current) => current(next, api),
+    handler
+  );
+}
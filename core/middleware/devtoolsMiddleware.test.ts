@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from "vitest";
+import { createForm } from "../createForm";
+import { removeFormStore } from "../registry";
+import type { FormConfig, FormState } from "../types";
+import { memoryAdapter } from "../../utils/persistence";
+import {
+  devtoolsMiddleware,
+  type DevtoolsConnector,
+  type DevtoolsMessage,
+} from "./devtoolsMiddleware";
+
+type TaskValues = { title: string; done: boolean };
+
+type MockInstance = {
+  init: unknown[];
+  sent: Array<{ action: any; state: any }>;
+  listeners: Set<(message: DevtoolsMessage) => void>;
+};
+
+/** In-memory мок расширения: хранит отправленное и эмулирует сообщения */
+function createMockConnector() {
+  const instances = new Map<string, MockInstance>();
+
+  const connector: DevtoolsConnector = {
+    connect: ({ name }) => {
+      const instance: MockInstance = { init: [], sent: [], listeners: new Set() };
+      instances.set(name, instance);
+      return {
+        init: (state) => instance.init.push(JSON.parse(JSON.stringify(state))),
+        send: (action, state) => instance.sent.push(JSON.parse(JSON.stringify({ action, state }))),
+        subscribe: (listener) => {
+          instance.listeners.add(listener);
+          return () => instance.listeners.delete(listener);
+        },
+      };
+    },
+  };
+
+  const emit = (name: string, message: DevtoolsMessage) =>
+    instances.get(name)?.listeners.forEach((listener) => listener(message));
+
+  return { connector, instances, emit };
+}
+
+const config: FormConfig<TaskValues> = {
+  title: { value: "" },
+  done: { value: false },
+};
+
+const mock = createMockConnector();
+
+const { createController } = createForm<TaskValues>({
+  type: "Task",
+  config,
+  defaults: { title: "", done: false },
+  middleware: [devtoolsMiddleware({ connector: mock.connector })],
+});
+
+describe("devtoolsMiddleware", () => {
+  it("should send named actions and state per registry key", () => {
+    const controller = createController("send");
+    const instance = mock.instances.get("Task:send")!;
+
+    controller.setValue("title", "Write docs");
+
+    expect(instance.init).toHaveLength(1);
+    expect(instance.sent.at(-1)?.action).toEqual({
+      type: "setFieldValue",
+      key: "title",
+      value: "Write docs",
+    });
+    expect(instance.sent.at(-1)?.state.values.title).toBe("Write docs");
+
+    removeFormStore("Task", "send");
+    expect(instance.listeners.size).toBe(0);
+  });
+
+  it("should jump to state and import history without echoing back", () => {
+    const controller = createController("travel");
+    const instance = mock.instances.get("Task:travel")!;
+
+    controller.setValue("title", "First");
+    const snapshot = instance.sent.at(-1)!.state as FormState<TaskValues>;
+    controller.setValue("title", "Second");
+    const sentCount = instance.sent.length;
+
+    mock.emit("Task:travel", {
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify(snapshot),
+    });
+    expect(controller.getState().values.title).toBe("First");
+    expect(instance.sent).toHaveLength(sentCount);
+
+    const imported = { ...snapshot, values: { title: "Imported", done: true } };
+    mock.emit("Task:travel", {
+      type: "DISPATCH",
+      payload: { type: "IMPORT_STATE", nextLiftedState: { computedStates: [{ state: imported }] } },
+    });
+    expect(controller.getState().values).toEqual({ title: "Imported", done: true });
+    expect(instance.sent.at(-1)).toEqual({
+      action: null,
+      state: { computedStates: [{ state: imported }] },
+    });
+
+    removeFormStore("Task", "travel");
+  });
+
+  it("should not write persisted draft when jumping in time", () => {
+    const adapter = memoryAdapter();
+    const { createController: createPersistedController } = createForm<TaskValues>({
+      type: "PersistedTask",
+      config,
+      defaults: { title: "", done: false },
+      persist: adapter,
+      middleware: [devtoolsMiddleware({ connector: mock.connector })],
+    });
+    const controller = createPersistedController("1");
+    const instance = mock.instances.get("PersistedTask:1")!;
+
+    controller.setValue("title", "First");
+    const snapshot = instance.sent.at(-1)!.state as FormState<TaskValues>;
+    controller.setValue("title", "Second");
+    const setSpy = vi.spyOn(adapter, "set");
+
+    mock.emit("PersistedTask:1", {
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify(snapshot),
+    });
+
+    expect(controller.getState().values.title).toBe("First");
+    expect(setSpy).not.toHaveBeenCalled();
+    expect(adapter.getSync?.<{ values: TaskValues }>("PersistedTask:1")?.values.title).toBe("Second");
+
+    removeFormStore("PersistedTask", "1");
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * devtoolsMiddleware — мост к Redux DevTools
+ *
+ * Каждый экземпляр формы — отдельный инстанс в расширении с именем
+ * ключа registry ("Order:NewOrder"). В расширение уходят все действия
+ * формы и FormState после них.
+ *
+ * Поддерживается:
+ * - jump to state / action (time travel) — состояние заменяется снимком
+ * - reset / commit / rollback
+ * - import / export истории
+ * - dispatch действия (FormAction) из расширения
+ *
+ * Без расширения (SSR, production) middleware только передаёт действие дальше.
+ *
+ * @example
+ * createForm({
+ *   type: "Order",
+ *   config,
+ *   defaults,
+ *   middleware: process.env.NODE_ENV === "development" ? [devtoolsMiddleware()] : [],
+ * });
+ */
+
+import type { FormState } from "../types";
+import type { FormAction } from "../actions/formReducer";
+import type { FormMiddleware } from "./applyMiddleware";
+
+/**
+ * Сообщение от расширения (протокол Redux DevTools)
+ */
+export interface DevtoolsMessage {
+  type: string;
+  /** DISPATCH: { type: "JUMP_TO_STATE" | ... }, ACTION: действие (JSON-строка или объект) */
+  payload?: any;
+  /** Снимок состояния (JSON-строка) для JUMP_TO_STATE / JUMP_TO_ACTION / ROLLBACK */
+  state?: string;
+}
+
+/**
+ * Соединение с одним инстансом в расширении
+ */
+export interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: unknown, state: unknown) => void;
+  subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+  unsubscribe?: () => void;
+}
+
+/**
+ * Коннектор — window.__REDUX_DEVTOOLS_EXTENSION__ или мок в тестах
+ */
+export interface DevtoolsConnector {
+  connect: (options: { name: string; features?: Record<string, unknown> }) => DevtoolsConnection;
+}
+
+export interface DevtoolsOptions {
+  /** Коннектор (по умолчанию — расширение браузера, если установлено) */
+  connector?: DevtoolsConnector;
+  /** Имя инстанса (по умолчанию — ключ registry "type:id") */
+  name?: (key: string) => string;
+}
+
+/** Возможности, которые поддерживает мост */
+const FEATURES = {
+  jump: true,
+  skip: false,
+  reorder: false,
+  persist: false,
+  import: "custom",
+  export: true,
+  dispatch: true,
+  pause: true,
+  lock: false,
+  test: false,
+};
+
+function getExtensionConnector(): DevtoolsConnector | undefined {
+  if (typeof window === "undefined") return undefined;
+  return (window as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsConnector })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+function parseJson<T>(value: unknown): T | undefined {
+  if (typeof value !== "string") return value as T | undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("[Palistor] devtools: invalid JSON from extension", error);
+    return undefined;
+  }
+}
+
+/**
+ * Создаёт middleware для Redux DevTools
+ *
+ * @param options - коннектор и имя инстанса
+ */
+export function devtoolsMiddleware<TValues extends Record<string, any> = any>(
+  options: DevtoolsOptions = {}
+): FormMiddleware<TValues> {
+  return (next, api) => {
+    const connector = options.connector ?? getExtensionConnector();
+    if (!connector) return next;
+
+    const connection = connector.connect({
+      name: options.name?.(api.key) ?? api.key,
+      features: FEATURES,
+    });
+
+    let initialState = api.getState();
+    connection.init(initialState);
+
+    // Изменения из расширения (jump / import) не отправляются обратно
+    let isTravelling = false;
+    let isPaused = false;
+
+    const replaceState = (state: FormState<TValues> | undefined) => {
+      if (!state) return;
+      isTravelling = true;
+      try {
+        api.dispatch({ type: "replaceFormState", state });
+      } finally {
+        isTravelling = false;
+      }
+    };
+
+    const handleDispatch = (message: DevtoolsMessage) => {
+      switch (message.payload?.type) {
+        case "JUMP_TO_STATE":
+        case "JUMP_TO_ACTION":
+          replaceState(parseJson<FormState<TValues>>(message.state));
+          break;
+        case "RESET":
+          replaceState(initialState);
+          connection.init(initialState);
+          break;
+        case "COMMIT":
+          initialState = api.getState();
+          connection.init(initialState);
+          break;
+        case "ROLLBACK": {
+          const state = parseJson<FormState<TValues>>(message.state);
+          replaceState(state);
+          if (state) connection.init(state);
+          break;
+        }
+        case "IMPORT_STATE": {
+          const { nextLiftedState } = message.payload;
+          const computedStates: Array<{ state: FormState<TValues> }> =
+            nextLiftedState?.computedStates ?? [];
+          replaceState(computedStates[computedStates.length - 1]?.state);
+          connection.send(null, nextLiftedState);
+          break;
+        }
+        case "PAUSE_RECORDING":
+          isPaused = !isPaused;
+          break;
+      }
+    };
+
+    const unsubscribe = connection.subscribe((message) => {
+      if (message.type === "DISPATCH") {
+        handleDispatch(message);
+      } else if (message.type === "ACTION") {
+        // Действие, введённое в расширении: { "type": "setFieldValue", ... }
+        const action = parseJson<FormAction<TValues>>(message.payload);
+        if (action?.type) api.dispatch(action);
+      }
+    });
+
+    api.onDispose(() => {
+      unsubscribe?.();
+      connection.unsubscribe?.();
+    });
+
+    return (action, state) => {
+      const nextState = next(action, state);
+
+      if (!isTravelling && !isPaused) {
+        connection.send(action, nextState);
+      }
+
+      return nextState;
+    };
+  };
+}
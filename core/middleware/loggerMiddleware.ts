@@ -0,0 +1,21 @@
+/**
+ * loggerMiddleware — вывод действий формы в консоль (для отладки)
+ *
+ * @example
+ * createForm({ type: "Order", config, defaults, middleware: [loggerMiddleware] });
+ * // [Palistor] Order:NewOrder setFieldValue { type: "setFieldValue", key: "name", value: "A" }
+ */
+
+import type { FormMiddleware } from "./applyMiddleware";
+
+export const loggerMiddleware: FormMiddleware = (next, api) => (action, state) => {
+  const nextState = next(action, state);
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `[Palistor] ${api.key} ${action.type}${nextState === state ? " (no changes)" : ""}`,
+    action
+  );
+
+  return nextState;
+};
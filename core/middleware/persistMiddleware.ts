@@ -0,0 +1,163 @@
+/**
+ * persistMiddleware — черновик values в PersistenceAdapter
+ *
+ * - пользователь изменил values → черновик перезаписывается
+ *   ({ version, createdAt, updatedAt, values }), createdAt восстановленного черновика
+ *   сохраняется, expiresAt = updatedAt + ttl
+ * - форма не dirty (данные с сервера, правка вернула исходное значение) →
+ *   черновик удаляется: несохранённых изменений нет. Исключение — форма,
+ *   восстановленная из черновика: её начальное состояние и есть черновик
+ * - mergeInitialValues (initial с сервера) черновик не записывает
+ * - поля с persist: false / sensitive: true в черновик не попадают
+ * - с encryption в хранилище пишется шифротекст
+ * - с write (debounce / maxWait / idle) запись откладывается — values
+ *   сериализуются один раз на серию изменений
+ * - resetForm, discardDraft и успешный submit → отложенная запись отменяется,
+ *   черновик удаляется
+ * - replaceFormState (time travel в DevTools) черновик не трогает —
+ *   исторический снимок не должен перезаписать сохранённые правки
+ * - пока черновик загружается (hydrating) или ждёт решения (pendingDraft),
+ *   запись не выполняется — иначе новые values перезаписали бы черновик;
+ *   правки, сделанные во время загрузки, записываются после неё
+ *
+ * Без шифрования операция с хранилищем запускается сразу (localStorage — синхронно).
+ * С шифрованием операции выполняются строго по очереди: медленное шифрование
+ * старых values не перезапишет более новый черновик.
+ *
+ * Подключается controller'ом автоматически (ключ — persistId или "type:id").
+ */
+
+import type {
+  DraftDescriptor,
+  DraftEncryption,
+  DraftWriteOptions,
+  PersistenceAdapter,
+} from "../types";
+import type { FormMiddleware } from "./applyMiddleware";
+import {
+  createDraftEnvelope,
+  createDraftWriter,
+  encodeDraft,
+  getPersistableValues,
+} from "../../utils/persistence";
+
+export interface PersistMiddlewareOptions {
+  /** Хранилище */
+  adapter: PersistenceAdapter;
+  /** Версия схемы values (по умолчанию 0) */
+  version?: number;
+  /** Шифрование черновика */
+  encryption?: DraftEncryption;
+  /** Планирование записи (по умолчанию — на каждое изменение) */
+  write?: DraftWriteOptions;
+  /** Время жизни черновика после сохранения (мс) */
+  ttl?: number;
+  /** Черновик, восстановленный при создании экземпляра */
+  draft?: DraftDescriptor;
+}
+
+/** Ошибки асинхронного хранилища не должны ломать форму */
+function logPersistError(error: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error("[Palistor] Persistence adapter error:", error);
+}
+
+export function persistMiddleware<TValues extends Record<string, any>>(
+  persistKey: string,
+  { adapter, version = 0, encryption, write, ttl, draft }: PersistMiddlewareOptions
+): FormMiddleware<TValues> {
+  return (next, api) => {
+    let queue: Promise<void> = Promise.resolve();
+    /** Черновик восстановлен в начальное состояние формы */
+    let isRestored = !!draft;
+    /** В хранилище есть черновик этого экземпляра */
+    let isStored = !!draft;
+    let createdAt = draft?.createdAt;
+
+    const run = (operation: () => Promise<void>): Promise<void> => {
+      queue = (encryption ? queue.then(operation) : operation()).catch(logPersistError);
+      return queue;
+    };
+
+    const writer = createDraftWriter<TValues>(
+      persistKey,
+      (values) => {
+        isStored = true;
+        createdAt ??= Date.now();
+        const envelope = createDraftEnvelope(
+          getPersistableValues(values, api.getActionCtx().config),
+          version,
+          { createdAt, ttl }
+        );
+        return run(async () =>
+          adapter.set(persistKey, encryption ? await encodeDraft(envelope, encryption) : envelope)
+        );
+      },
+      write
+    );
+
+    // Экземпляр удаляется (removeFormStore / eviction) — отложенная запись не теряется
+    api.onDispose(() => {
+      void writer.dispose();
+    });
+
+    return (action, state) => {
+      const nextState = next(action, state);
+
+      if (action.type === "replaceFormState") {
+        return nextState;
+      }
+
+      // Восстановленный черновик продолжается — createdAt прежний
+      const restored =
+        action.type === "hydrateForm" && state.hydrating && !action.prompt
+          ? action.draft
+          : action.type === "restoreDraft"
+            ? state.pendingDraft
+            : undefined;
+
+      if (restored) {
+        isRestored = isStored = true;
+        createdAt = restored.createdAt;
+      }
+
+      if (action.type === "hydrateForm" || action.type === "restoreDraft") {
+        // Правки, сделанные во время загрузки, черновик не перекрыл — сохраняем их
+        if (state.hydrating && nextState.dirty && !nextState.pendingDraft) {
+          writer.schedule(nextState.values);
+        }
+        return nextState;
+      }
+
+      const isFinished =
+        action.type === "resetForm" ||
+        (action.type === "discardDraft" && !!state.pendingDraft) ||
+        (action.type === "setSubmitStatus" && action.status === "succeeded");
+
+      if (isFinished) {
+        writer.cancel();
+        isRestored = isStored = false;
+        createdAt = undefined;
+        run(() => adapter.remove(persistKey));
+      } else if (
+        nextState.values !== state.values &&
+        !nextState.hydrating &&
+        !nextState.pendingDraft
+      ) {
+        if (!nextState.dirty && !isRestored) {
+          // Values совпадают с исходными — несохранённых изменений нет
+          writer.cancel();
+          if (isStored) {
+            isStored = false;
+            createdAt = undefined;
+            run(() => adapter.remove(persistKey));
+          }
+        } else if (action.type !== "mergeInitialValues") {
+          writer.schedule(nextState.values);
+        }
+      }
+
+      return nextState;
+    };
+  };
+}
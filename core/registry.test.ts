@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createForm } from "./createForm";
+import { createFormController } from "./createFormController";
+import {
+  getRegistryEntry,
+  hasFormStore,
+  releaseFormEntry,
+  removeFormStore,
+  retainFormEntry,
+} from "./registry";
+import type { FormConfig, FormEvictionInfo } from "./types";
+
+type DraftValues = { title: string };
+
+const config: FormConfig<DraftValues> = { title: { value: "" } };
+
+/** Монтирование / размонтирование useForm */
+const mount = (key: string) => retainFormEntry(key);
+const unmount = (key: string) => releaseFormEntry(key);
+
+describe("registry eviction", () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    storage.clear();
+  });
+
+  it("should keep instance remounted within TTL and evict it after", () => {
+    const evicted: FormEvictionInfo[] = [];
+    const { createController } = createForm<DraftValues>({
+      type: "TtlDraft",
+      config,
+      defaults: { title: "" },
+      eviction: { strategy: "ttl", ttl: 1000, onEvict: (info) => evicted.push(info) },
+    });
+
+    const controller = createController("1");
+    mount(controller.key);
+    controller.setValue("title", "Unsaved");
+    unmount(controller.key);
+
+    vi.advanceTimersByTime(900);
+    mount(controller.key);
+    vi.advanceTimersByTime(1000);
+    expect(getRegistryEntry(controller.key)?.controller).toBe(controller);
+
+    unmount(controller.key);
+    vi.advanceTimersByTime(1000);
+    expect(hasFormStore("TtlDraft", "1")).toBe(false);
+    expect(evicted).toHaveLength(1);
+    expect(evicted[0]).toMatchObject({ key: "TtlDraft:1", reason: "ttl" });
+    expect(evicted[0].state.values.title).toBe("Unsaved");
+
+    // Черновик остаётся — новый экземпляр восстанавливает значения
+    expect(createController("1").getState().values.title).toBe("Unsaved");
+    removeFormStore("TtlDraft", "1");
+  });
+
+  it("should evict immediately on next tick unless remounted", () => {
+    const { createController } = createForm<DraftValues>({
+      type: "ImmediateDraft",
+      config,
+      defaults: { title: "" },
+      eviction: { strategy: "immediate" },
+    });
+
+    const controller = createController("1");
+
+    // StrictMode: unmount + mount в одном tick
+    mount(controller.key);
+    unmount(controller.key);
+    mount(controller.key);
+    vi.runAllTimers();
+    expect(hasFormStore("ImmediateDraft", "1")).toBe(true);
+
+    unmount(controller.key);
+    vi.runAllTimers();
+    expect(hasFormStore("ImmediateDraft", "1")).toBe(false);
+  });
+
+  it("should keep controllers created outside React until removed by hand", () => {
+    createForm<DraftValues>({
+      type: "ManualDraft",
+      config,
+      defaults: { title: "" },
+      eviction: { strategy: "immediate" },
+    });
+
+    const controller = createFormController<DraftValues>("ManualDraft", "1");
+    vi.runAllTimers();
+    expect(getRegistryEntry(controller.key)).toMatchObject({ controller, refCount: 0 });
+
+    removeFormStore("ManualDraft", "1");
+    expect(hasFormStore("ManualDraft", "1")).toBe(false);
+  });
+
+  it("should evict least recently used idle instances over the cap", () => {
+    const onEvict = vi.fn();
+    const { createController } = createForm<DraftValues>({
+      type: "LruDraft",
+      config,
+      defaults: { title: "" },
+      eviction: { strategy: "lru", maxEntries: 2, onEvict },
+    });
+
+    const keys = ["a", "b", "c"].map((id) => createController(id).key);
+    keys.forEach(mount);
+    unmount("LruDraft:b");
+    unmount("LruDraft:a");
+
+    expect(hasFormStore("LruDraft", "b")).toBe(false);
+    expect(hasFormStore("LruDraft", "a")).toBe(true);
+    expect(onEvict).toHaveBeenCalledWith(expect.objectContaining({ key: "LruDraft:b", reason: "lru" }));
+
+    ["a", "c"].forEach((id) => removeFormStore("LruDraft", id));
+  });
+});
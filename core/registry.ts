@@ -0,0 +1,243 @@
+/**
+ * Registry форм
+ *
+ * - определения форм по type (регистрирует createForm)
+ * - экземпляры по ключу "type:id": store + controller
+ *
+ * Экземпляр общий для всех потребителей одного ключа: корневой и вложенные
+ * компоненты useForm, а также createFormController вне React.
+ *
+ * Экземпляры без смонтированных useForm удаляются по CreateFormConfig.eviction
+ * (immediate / ttl / lru), по умолчанию — остаются до removeFormStore.
+ * Экземпляры createFormController, не смонтированные через useForm,
+ * удаляются только через removeFormStore.
+ */
+
+import type {
+  CreateFormConfig,
+  FormEvictionOptions,
+  FormEvictionReason,
+  FormState,
+  Store,
+} from "./types";
+import type { FormController } from "./createFormController";
+
+/**
+ * Запись экземпляра формы в registry
+ */
+export interface FormRegistryEntry {
+  store: Store<FormState<any>>;
+  controller: FormController<any>;
+  /** Количество смонтированных useForm (0 — кандидат на удаление по eviction) */
+  refCount: number;
+}
+
+const definitions = new Map<string, CreateFormConfig<any>>();
+const entries = new Map<string, FormRegistryEntry>();
+const listeners = new Set<() => void>();
+
+/**
+ * Экземпляры с refCount = 0 в порядке освобождения (первый — давно неиспользуемый)
+ * Значение — таймер удаления (immediate / ttl)
+ */
+const idleEntries = new Map<string, ReturnType<typeof setTimeout> | undefined>();
+
+/** Уведомляет подписчиков об изменении списка экземпляров */
+function notifyRegistryListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+export function getRegistryKey(type: string, id: string): string {
+  return `${type}:${id}`;
+}
+
+// ============================================================================
+// Определения форм
+// ============================================================================
+
+/**
+ * Регистрирует статическую конфигурацию формы (вызывается из createForm)
+ * Повторная регистрация (HMR) заменяет определение для новых экземпляров
+ */
+export function registerFormDefinition<TValues extends Record<string, any>>(
+  definition: CreateFormConfig<TValues>
+): void {
+  definitions.set(definition.type, definition);
+}
+
+/**
+ * Определение формы по type
+ */
+export function getFormDefinition<TValues extends Record<string, any>>(
+  type: string
+): CreateFormConfig<TValues> | undefined {
+  return definitions.get(type) as CreateFormConfig<TValues> | undefined;
+}
+
+// ============================================================================
+// Экземпляры
+// ============================================================================
+
+export function getRegistryEntry(key: string): FormRegistryEntry | undefined {
+  return entries.get(key);
+}
+
+export function setRegistryEntry(key: string, entry: FormRegistryEntry): void {
+  entries.set(key, entry);
+  notifyRegistryListeners();
+
+  // Экземпляр вне React (createFormController) тоже занимает место в лимите lru
+  const eviction = getEviction(entry);
+  if (eviction?.strategy === "lru") {
+    evictLeastRecentlyUsed(entry.controller.type, eviction.maxEntries);
+  }
+}
+
+/**
+ * Отмечает подключение потребителя (mount useForm)
+ * Отменяет запланированное удаление
+ */
+export function retainFormEntry(key: string): void {
+  const entry = entries.get(key);
+  if (entry) {
+    entry.refCount++;
+    cancelEviction(key);
+  }
+}
+
+/**
+ * Отмечает отключение потребителя (unmount useForm)
+ * Последний потребитель → удаление по CreateFormConfig.eviction
+ */
+export function releaseFormEntry(key: string): void {
+  const entry = entries.get(key);
+  if (entry && entry.refCount > 0) {
+    entry.refCount--;
+
+    if (entry.refCount === 0) {
+      scheduleEviction(key, entry);
+    }
+  }
+}
+
+// ============================================================================
+// Очистка (eviction)
+// ============================================================================
+
+function getEviction(entry: FormRegistryEntry): FormEvictionOptions | undefined {
+  return definitions.get(entry.controller.type)?.eviction;
+}
+
+function cancelEviction(key: string): void {
+  clearTimeout(idleEntries.get(key));
+  idleEntries.delete(key);
+}
+
+function scheduleEviction(key: string, entry: FormRegistryEntry): void {
+  const eviction = getEviction(entry);
+  cancelEviction(key);
+
+  switch (eviction?.strategy) {
+    case "immediate":
+      // Следующий tick: StrictMode и смена key размонтируют и сразу монтируют снова
+      idleEntries.set(key, setTimeout(() => evictFormEntry(key, "immediate"), 0));
+      break;
+    case "ttl":
+      idleEntries.set(key, setTimeout(() => evictFormEntry(key, "ttl"), eviction.ttl));
+      break;
+    case "lru":
+      idleEntries.set(key, undefined);
+      evictLeastRecentlyUsed(entry.controller.type, eviction.maxEntries);
+      break;
+  }
+}
+
+/**
+ * Удаляет давно неиспользуемые экземпляры типа, пока их больше maxEntries
+ * Смонтированные экземпляры не удаляются, даже если лимит превышен
+ */
+function evictLeastRecentlyUsed(type: string, maxEntries: number): void {
+  let excess = 0;
+  entries.forEach((entry) => {
+    if (entry.controller.type === type) excess++;
+  });
+  excess -= maxEntries;
+
+  for (const key of Array.from(idleEntries.keys())) {
+    if (excess <= 0) break;
+    if (entries.get(key)?.controller.type === type) {
+      evictFormEntry(key, "lru");
+      excess--;
+    }
+  }
+}
+
+function evictFormEntry(key: string, reason: FormEvictionReason): void {
+  const entry = entries.get(key);
+  if (!entry) return;
+
+  const { type, id } = entry.controller;
+  const state = entry.store.getState();
+
+  // Черновик не удаляется — новый экземпляр восстановит его из persistence
+  removeFormStore(type, id);
+
+  getFormDefinition(type)?.eviction?.onEvict?.({ key, type, id, state, reason });
+}
+
+// ============================================================================
+// Утилиты для работы с registry
+// ============================================================================
+
+/**
+ * Получить store напрямую по type:id (для escape hatch)
+ */
+export function getFormStore<TValues extends Record<string, any>>(
+  type: string,
+  id: string
+): Store<FormState<TValues>> | undefined {
+  const entry = entries.get(getRegistryKey(type, id));
+  return entry?.store as Store<FormState<TValues>> | undefined;
+}
+
+/**
+ * Проверить наличие store в registry
+ */
+export function hasFormStore(type: string, id: string): boolean {
+  return entries.has(getRegistryKey(type, id));
+}
+
+/**
+ * Удалить store из registry
+ * Controller экземпляра освобождает ресурсы (асинхронная валидация, persist)
+ */
+export function removeFormStore(type: string, id: string): void {
+  const key = getRegistryKey(type, id);
+  const entry = entries.get(key);
+  entries.delete(key);
+  cancelEviction(key);
+  entry?.controller.dispose();
+
+  if (entry) {
+    notifyRegistryListeners();
+  }
+}
+
+/**
+ * Получить все ключи из registry (для отладки)
+ */
+export function getRegistryKeys(): string[] {
+  return Array.from(entries.keys());
+}
+
+/**
+ * Подписаться на появление и удаление экземпляров (инспектор, отладка)
+ *
+ * @returns функция отписки
+ */
+export function subscribeRegistry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -127,7 +127,13 @@ console.log("=== Test: computeAllFieldStates (recursive) ===");
     config: testConfig,
     translate: (key: string) => key,
     locale: "en",
-    showErrors: false,
+    initialValues: testValues,
+    asyncErrors: {},
+    formErrors: {},
+    externalErrors: {},
+    validating: {},
+    touchedFields: {},
+    requiredError: "validation.required",
   };
 
   const fields = computeAllFieldStates(ctx);
@@ -152,7 +158,13 @@ console.log("=== Test: getFieldProps('passport') returns state ===");
     config: testConfig,
     translate: (key: string) => key,
     locale: "en",
-    showErrors: false,
+    initialValues: testValues,
+    asyncErrors: {},
+    formErrors: {},
+    externalErrors: {},
+    validating: {},
+    touchedFields: {},
+    requiredError: "validation.required",
   };
 
   const fields = computeAllFieldStates(ctx);
@@ -181,7 +193,13 @@ console.log("=== Test: recomputeFieldStates ===");
     config: testConfig,
     translate: (key: string) => key,
     locale: "en",
-    showErrors: false,
+    initialValues: testValues,
+    asyncErrors: {},
+    formErrors: {},
+    externalErrors: {},
+    validating: {},
+    touchedFields: {},
+    requiredError: "validation.required",
   };
 
   const fields = computeAllFieldStates(ctx);
@@ -2,6 +2,8 @@
  * Palistor - Типы для state manager
  */
 
+import type { FormMiddleware } from "./middleware/applyMiddleware";
+
 // ============================================================================
 // Nested Field Types
 // ============================================================================
@@ -9,17 +11,23 @@
 /**
  * Рекурсивный тип для получения всех возможных путей к вложенным полям
  * 
+ * Для массивов генерируются индексные пути: "items.0", "items.0.price"
+ * 
  * @example
  * type User = { name: string; address: { city: string; zip: number } };
  * type Keys = NestedKeyOf<User>; 
  * // → "name" | "address" | "address.city" | "address.zip"
+ * 
+ * type Order = { items: Array<{ price: number }> };
+ * type OrderKeys = NestedKeyOf<Order>;
+ * // → "items" | `items.${number}` | `items.${number}.price`
  */
 export type NestedKeyOf<T> = {
-  [K in keyof T & string]: T[K] extends Record<string, any>
-    ? T[K] extends any[]
-      ? K
-      : K | `${K}.${NestedKeyOf<T[K]>}`
-    : K;
+  [K in keyof T & string]: T[K] extends ReadonlyArray<infer U>
+    ? K | `${K}.${number}` | (U extends Record<string, any> ? `${K}.${number}.${NestedKeyOf<U>}` : never)
+    : T[K] extends Record<string, any>
+      ? K | `${K}.${NestedKeyOf<T[K]>}`
+      : K;
 }[keyof T & string];
 
 /**
@@ -28,15 +36,41 @@ export type NestedKeyOf<T> = {
  * @example
  * type User = { address: { city: string } };
  * type City = NestedValueOf<User, "address.city">; // → string
+ * 
+ * type Order = { items: Array<{ price: number }> };
+ * type Price = NestedValueOf<Order, "items.0.price">; // → number
  */
 export type NestedValueOf<T, Path extends string> = 
   Path extends `${infer K}.${infer Rest}`
-    ? K extends keyof T
-      ? NestedValueOf<T[K], Rest>
-      : never
-    : Path extends keyof T
-      ? T[Path]
-      : never;
+    ? T extends ReadonlyArray<infer U>
+      ? K extends `${number}` ? NestedValueOf<U, Rest> : never
+      : K extends keyof T
+        ? NestedValueOf<T[K], Rest>
+        : never
+    : T extends ReadonlyArray<infer U>
+      ? Path extends `${number}` ? U : never
+      : Path extends keyof T
+        ? T[Path]
+        : never;
+
+/**
+ * Тип элемента массива (для append/insert)
+ *
+ * @example
+ * type Item = ArrayItemOf<Array<{ price: number }>>; // → { price: number }
+ */
+export type ArrayItemOf<T> = T extends ReadonlyArray<infer U> ? U : never;
+
+/**
+ * Значения по списку путей (для watch / useWatch)
+ *
+ * @example
+ * type User = { name: string; address: { city: string } };
+ * type Watched = WatchedValues<User, ["name", "address.city"]>; // → [string, string]
+ */
+export type WatchedValues<T, Paths extends ReadonlyArray<string>> = {
+  -readonly [I in keyof Paths]: NestedValueOf<T, Paths[I] & string>;
+};
 
 // ============================================================================
 // Core Store Types
@@ -47,6 +81,68 @@ export type Listener = () => void;
 /** Функция перевода (i18n) */
 export type TranslateFn = (key: string, params?: Record<string, any>) => string;
 
+/**
+ * Результат валидатора — ключ перевода или ключ с параметрами интерполяции
+ *
+ * @example
+ * "validation.required"
+ * { key: "validation.amountMin", params: { min: 100 } }
+ */
+export type ValidationError = string | { key: string; params?: Record<string, any> };
+
+/**
+ * Адаптер схемы валидации (Zod, Valibot, Yup и т.д.)
+ *
+ * Проверяет values целиком и возвращает ошибки по путям полей —
+ * тем же, что в state.errors ("passport.number", "items.0.price").
+ * Проверка синхронная: вызывается при каждом изменении values.
+ *
+ * @example
+ * schema: zodAdapter(orderSchema)
+ */
+export interface SchemaAdapter<TValues = Record<string, any>> {
+  validate: (values: TValues) => Record<string, ValidationError>;
+}
+
+/**
+ * Валидатор уровня формы (CreateFormConfig.validate)
+ *
+ * Получает все values и возвращает ошибки по путям полей.
+ * Ошибка всей формы — под ключом FORM_ERROR_KEY.
+ *
+ * @example
+ * validate: (values) => ({
+ *   "passport.expiryDate": values.passport.expiryDate <= values.passport.issueDate
+ *     ? "form.passport.expiryDateBeforeIssue"
+ *     : undefined,
+ * })
+ */
+export type FormValidator<TValues = Record<string, any>> = (
+  values: TValues
+) => Record<string, ValidationError | undefined> | undefined;
+
+/**
+ * Статус отправки формы
+ *
+ * idle → validating → submitting → succeeded | failed
+ *
+ * - validating — beforeSubmit и проверки (в т.ч. validateAsync)
+ * - невалидная форма возвращается в idle
+ */
+export type SubmitStatus = "idle" | "validating" | "submitting" | "succeeded" | "failed";
+
+/**
+ * Когда показывать ошибку поля (isInvalid / errorMessage в getFieldProps)
+ *
+ * - onSubmit — после первого submit (по умолчанию)
+ * - onBlur — после потери фокуса, дальше обновляется при вводе
+ * - onChange — после первого изменения пользователем, дальше обновляется при вводе
+ * - onTouched — после первого blur, дальше обновляется при вводе
+ *
+ * После submit ошибки показываются во всех режимах.
+ */
+export type ValidationMode = "onSubmit" | "onBlur" | "onChange" | "onTouched";
+
 /**
  * Конвертирует тип значения поля в тип для onValueChange
  * - Если поле number → string | number (потому что Input может вернуть и то и то)
@@ -138,8 +234,38 @@ export interface FieldConfig<TValue = any, TValues = Record<string, any>> {
   /** Описание поля */
   description?: string | ((translate: TranslateFn, settings?: any) => string);
 
-  /** Валидация - возвращает ключ ошибки или undefined */
-  validate?: (value: TValue, values: TValues) => string | undefined;
+  /**
+   * Валидация - возвращает ключ ошибки (или { key, params }) либо undefined
+   * Ключ переводится через translate формы: fields[key].error — текст,
+   * fields[key].errorKey — исходный ключ
+   */
+  validate?: (value: TValue, values: TValues) => ValidationError | undefined;
+
+  /**
+   * Асинхронная валидация (проверка на сервере) — Promise ключа ошибки
+   *
+   * Запускается после изменения значения с задержкой `asyncDebounce`.
+   * Если значение меняется снова, предыдущий запуск отменяется через `signal`.
+   * Синхронный `validate` имеет приоритет: пока он возвращает ошибку,
+   * асинхронная ошибка не показывается.
+   *
+   * @example
+   * email: {
+   *   validateAsync: async (value, values, { signal }) => {
+   *     const res = await fetch(`/api/email-taken?email=${value}`, { signal });
+   *     return (await res.json()).taken ? "validation.emailTaken" : undefined;
+   *   },
+   *   asyncDebounce: 500,
+   * }
+   */
+  validateAsync?: (
+    value: TValue,
+    values: TValues,
+    options: { signal: AbortSignal }
+  ) => Promise<ValidationError | undefined>;
+
+  /** Задержка перед запуском validateAsync в мс (по умолчанию 300) */
+  asyncDebounce?: number;
 
   /** Форматтер значения при вводе */
   formatter?: (value: TValue, values: TValues) => TValue;
@@ -151,9 +277,22 @@ export interface FieldConfig<TValue = any, TValues = Record<string, any>> {
     setValues: (next: Partial<TValues>, fieldName: keyof TValues) => void
   ) => void;
 
-  /** Флаг обязательности - boolean или функция */
+  /**
+   * Флаг обязательности - boolean или функция
+   * Видимое, не отключённое обязательное поле с пустым значением
+   * получает ошибку requiredError автоматически (пустота — по types.dataType)
+   */
   isRequired?: boolean | ((values: TValues) => boolean);
 
+  /**
+   * Ключ ошибки для пустого обязательного поля
+   * Переопределяет CreateFormConfig.requiredError; false — отключить автоматическую проверку
+   */
+  requiredError?: string | false;
+
+  /** Режим показа ошибки — переопределяет CreateFormConfig.validationMode */
+  validationMode?: ValidationMode;
+
   /** Флаг только для чтения */
   isReadOnly?: boolean | ((values: TValues) => boolean);
 
@@ -189,6 +328,43 @@ export interface FieldConfig<TValue = any, TValues = Record<string, any>> {
    */
   nested?: boolean;
 
+  /**
+   * Поле-массив (повторяющийся список)
+   * Если true, то `item` — шаблон конфига для каждого элемента массива
+   *
+   * @example
+   * items: {
+   *   array: true,
+   *   item: {
+   *     nested: true,
+   *     price: { value: 0, label: "Price" },
+   *     quantity: { value: 1, label: "Quantity" }
+   *   }
+   * }
+   * // Доступ через: getFieldProps("items.0.price")
+   */
+  array?: boolean;
+
+  /**
+   * Шаблон конфига элемента массива (только для array: true)
+   * Используется для вычисления fields["items.0"], fields["items.0.price"]
+   * и для значения по умолчанию при append/insert без value
+   */
+  item?: FieldConfig<any, TValues>;
+
+  /**
+   * false — значение не попадает в черновик (persist)
+   * Для nested / array исключается всё поддерево. После восстановления
+   * черновика поле получает значение из defaults
+   */
+  persist?: boolean;
+
+  /**
+   * Чувствительные данные (номер карты, CVV, паспорт) — никогда не сохраняются
+   * в черновик, как persist: false
+   */
+  sensitive?: boolean;
+
   /** Дополнительные пропсы для компонента */
   componentProps?: Record<string, unknown>;
 
@@ -209,6 +385,19 @@ export type FormConfig<TValues extends Record<string, any>> = {
   [K in keyof TValues]?: FieldConfig<TValues[K], TValues>;
 };
 
+/**
+ * Операция над полем-массивом
+ *
+ * Индексы сдвигаются вместе со значениями: после remove(0)
+ * бывший fields["items.1.price"] становится fields["items.0.price"].
+ */
+export type FieldArrayOperation<TItem = any> =
+  | { type: "append"; value: TItem }
+  | { type: "insert"; index: number; value: TItem }
+  | { type: "remove"; index: number }
+  | { type: "move"; from: number; to: number }
+  | { type: "swap"; indexA: number; indexB: number };
+
 // ============================================================================
 // Form State Types
 // ============================================================================
@@ -257,13 +446,26 @@ export interface ComputedFieldState<TValue = any> {
   placeholder?: string;
   /** Вычисленное описание */
   description?: string;
-  /** Ошибка валидации (если showErrors=true) */
+  /**
+   * Текст ошибки валидации (переведённый через translate формы).
+   * Вычисляется всегда, независимо от showErrors.
+   * Отображение регулируется в getFieldProps (isInvalid / errorMessage).
+   */
   error?: string;
+  /** Исходный ключ ошибки до перевода (для тестов и аналитики) */
+  errorKey?: string;
+  /** Значение отличается от initialValues (глубокое сравнение) */
+  isDirty: boolean;
+  /** Поле теряло фокус */
+  isTouched: boolean;
+  /** Идёт асинхронная валидация (validateAsync) */
+  isValidating: boolean;
 }
 
 /**
  * Словарь вычисленных состояний всех полей
  * Поддерживает вложенные ключи: fields["passport.number"]
+ * и индексные ключи массивов: fields["items.0.price"]
  */
 export type FieldStates<TValues extends Record<string, any>> = Record<string, ComputedFieldState<any>>;
 
@@ -290,6 +492,15 @@ export type FieldStates<TValues extends Record<string, any>> = Record<string, Co
  * ├── errors: { cardNumber: 'validation.required' }
  * │   └── Отдельно для быстрого доступа к ошибкам
  * │
+ * ├── dirtyFields / touchedFields / visitedFields: { cardNumber: true }
+ * │   └── Изменённые, терявшие фокус и получавшие фокус поля
+ * │
+ * ├── visibleErrors: { cardNumber: true }
+ * │   └── Показ ошибки по полям (validationMode)
+ * │
+ * ├── status, submitCount, lastSubmitError, lastSubmitResult, ...
+ * │   └── Жизненный цикл отправки
+ * │
  * └── submitting, dirty, showErrors, initialValues, locale
  *     └── Метаданные формы
  * ```
@@ -380,20 +591,95 @@ export interface FormState<TValues extends Record<string, any>> {
   fields: FieldStates<TValues>;
 
   /**
-   * Ошибки валидации
+   * Ключи ошибок валидации до перевода (вычисляются всегда, даже до первого submit)
    * Поддерживает вложенные ключи: errors["passport.number"]
+   * Переведённый текст — в fields[key].error
    */
   errors: Record<string, string>;
 
-  /** Флаг процесса отправки */
+  /**
+   * Результаты асинхронной валидации (validateAsync)
+   * Хранятся отдельно и подмешиваются в fields[key].error
+   */
+  asyncErrors: Record<string, ValidationError>;
+
+  /** Поля, для которых сейчас выполняется validateAsync */
+  validating: Record<string, boolean>;
+
+  /**
+   * Ошибки валидаторов уровня формы (CreateFormConfig.validate и schema) по путям
+   * Подмешиваются в fields[key].error; ошибки по путям без поля
+   * (FORM_ERROR_KEY, refine на всей форме) делают форму невалидной
+   */
+  formErrors: Record<string, ValidationError>;
+
+  /**
+   * Внешние ошибки (setError / setErrors — например, ответ сервера)
+   * Хранятся отдельно от ошибок валидаторов, приоритетнее их
+   * и сбрасываются при изменении поля пользователем
+   */
+  externalErrors: Record<string, ValidationError>;
+
+  /** Флаг процесса отправки (status === "submitting") */
   submitting: boolean;
 
+  /** Статус отправки */
+  status: SubmitStatus;
+
+  /**
+   * Черновик загружается из асинхронного хранилища (PersistenceAdapter без getSync)
+   * Пока true, values — это defaults: UI может показать skeleton вместо полей
+   */
+  hydrating: boolean;
+
+  /**
+   * Найденный черновик, ожидающий решения пользователя (restoreMode: "prompt")
+   * Пока он есть, новые values в хранилище не пишутся
+   */
+  pendingDraft?: DraftDescriptor<TValues>;
+
+  /** Количество попыток отправки (включая невалидные) */
+  submitCount: number;
+
+  /** Ошибка последней отправки (beforeSubmit / onSubmit / afterSubmit) */
+  lastSubmitError?: unknown;
+
+  /** Результат onSubmit последней успешной отправки */
+  lastSubmitResult?: unknown;
+
+  /** Время начала последней отправки (Date.now()) */
+  submitStartedAt?: number;
+
+  /** Время окончания последней отправки (succeeded / failed) */
+  submitFinishedAt?: number;
+
   /** Флаг "форма изменена" */
   dirty: boolean;
 
-  /** Показывать ошибки (после первого submit) */
+  /**
+   * Показывать ошибки всех полей (после первого submit)
+   * Влияет только на отображение — errors и isValid от него не зависят
+   */
   showErrors: boolean;
 
+  /**
+   * Поля, отличающиеся от initialValues (глубокое сравнение по пути)
+   * Родитель изменён, если изменён любой потомок: "passport" ← "passport.number"
+   */
+  dirtyFields: Record<string, boolean>;
+
+  /** Поля, которые теряли фокус (onBlur из getFieldProps) */
+  touchedFields: Record<string, boolean>;
+
+  /** Поля, которые получали фокус (onFocus из getFieldProps) */
+  visitedFields: Record<string, boolean>;
+
+  /**
+   * Поля, для которых ошибка показывается до submit (по validationMode)
+   * Итог: ошибка видна, если showErrors || visibleErrors[key]
+   */
+  visibleErrors: Record<string, boolean>;
+
   /** Начальные значения (для вычисления dirty и reset) */
   initialValues: TValues;
 
@@ -404,6 +690,270 @@ export interface FormState<TValues extends Record<string, any>> {
   locale: string;
 }
 
+// ============================================================================
+// Form Definition Types
+// ============================================================================
+
+/**
+ * Хранилище черновиков (CreateFormConfig.persist)
+ *
+ * Встроенные: localStorageAdapter, sessionStorageAdapter, indexedDbAdapter, memoryAdapter
+ */
+export interface PersistenceAdapter {
+  /** Прочитать значение (undefined — нет записи) */
+  get: <T>(key: string) => Promise<T | undefined>;
+  /** Записать значение */
+  set: <T>(key: string, value: T) => Promise<void>;
+  /** Удалить значение */
+  remove: (key: string) => Promise<void>;
+  /** Ключи всех записей адаптера */
+  list: () => Promise<string[]>;
+  /**
+   * Синхронное чтение (опционально) — форма создаётся сразу с черновиком,
+   * без этапа hydrating. Есть у localStorage, sessionStorage и memory
+   */
+  getSync?: <T>(key: string) => T | undefined;
+}
+
+/**
+ * Черновик в хранилище — values с версией схемы и метаданными
+ */
+export interface PersistedDraft<TValues = Record<string, any>> {
+  /** Версия схемы values (FormPersistOptions.version) */
+  version: number;
+  /** Время первого сохранения (Date.now()) */
+  createdAt: number;
+  /** Время последнего сохранения */
+  updatedAt: number;
+  /** После этого времени черновик удаляется (FormPersistOptions.ttl) */
+  expiresAt?: number;
+  values: TValues;
+}
+
+/**
+ * Черновик формы вне registry (listDrafts, pendingDraft)
+ * Для черновиков до метаданных время неизвестно
+ */
+export interface DraftDescriptor<TValues = Record<string, any>> {
+  /** Ключ в хранилище (persistId или "type:id") */
+  key: string;
+  type: string;
+  id: string;
+  createdAt?: number;
+  updatedAt?: number;
+  expiresAt?: number;
+  /** Values текущей версии схемы (после миграций) */
+  values: Partial<TValues>;
+}
+
+/**
+ * Восстановление черновика при создании экземпляра (useForm restoreMode)
+ * - auto: черновик сразу становится начальным состоянием
+ * - prompt: черновик доступен как pendingDraft — restoreDraft() / discardDraft()
+ * - never: черновик не читается (первое изменение перезапишет его)
+ */
+export type DraftRestoreMode = "auto" | "prompt" | "never";
+
+/**
+ * Миграции черновиков: migrations[n] переводит values версии n - 1 в версию n
+ * Исключение или undefined — черновик не мигрируется и удаляется
+ */
+export type DraftMigrations = Record<number, (values: any) => Record<string, any> | undefined>;
+
+/**
+ * Шифрование черновика (FormPersistOptions.encryption)
+ * encrypt получает JSON конверта { version, createdAt, updatedAt, values }, результат пишется в хранилище
+ */
+export interface DraftEncryption {
+  encrypt: (plaintext: string) => string | Promise<string>;
+  decrypt: (ciphertext: string) => string | Promise<string>;
+}
+
+/**
+ * Планирование записи черновика (FormPersistOptions.write)
+ * Без настроек черновик пишется на каждое изменение values
+ */
+export interface DraftWriteOptions {
+  /** Запись через N мс после последнего изменения */
+  debounce?: number;
+  /** При непрерывном вводе — запись не реже, чем раз в N мс */
+  maxWait?: number;
+  /** Запись в requestIdleCallback, если он доступен */
+  idle?: boolean;
+}
+
+/**
+ * Настройки черновиков (CreateFormConfig.persist)
+ */
+export interface FormPersistOptions {
+  /** Хранилище (по умолчанию localStorageAdapter()) */
+  adapter?: PersistenceAdapter;
+  /**
+   * Версия схемы values (по умолчанию 0)
+   * Увеличивается при несовместимых изменениях values вместе с миграцией
+   */
+  version?: number;
+  /** Шаги миграции старых черновиков до version */
+  migrations?: DraftMigrations;
+  /**
+   * Шифрование черновика — в хранилище только шифротекст
+   * С шифрованием черновик всегда загружается асинхронно (hydrating)
+   */
+  encryption?: DraftEncryption;
+  /**
+   * Debounce / maxWait / idle для записи (большие формы)
+   * Отложенная запись выполняется при pagehide, unmount и flushDrafts()
+   *
+   * @example
+   * write: { debounce: 300, maxWait: 2000, idle: true }
+   */
+  write?: DraftWriteOptions;
+  /**
+   * Время жизни черновика после последнего сохранения (мс)
+   * Просроченный черновик удаляется при чтении и в listDrafts
+   */
+  ttl?: number;
+}
+
+/**
+ * Настройки истории правок (CreateFormConfig.history)
+ */
+export interface FormHistoryOptions {
+  /** Максимум записей (старые отбрасываются), по умолчанию 100 */
+  limit?: number;
+  /** Правки одного поля чаще этого интервала (мс) склеиваются в одну запись, по умолчанию 500 */
+  coalesceMs?: number;
+}
+
+/**
+ * Причина удаления экземпляра из registry
+ */
+export type FormEvictionReason = "immediate" | "ttl" | "lru";
+
+/**
+ * Данные удалённого экземпляра (FormEvictionOptions.onEvict)
+ */
+export interface FormEvictionInfo {
+  /** Ключ в registry ("type:id") */
+  key: string;
+  type: string;
+  id: string;
+  /** Последнее состояние формы */
+  state: FormState<any>;
+  reason: FormEvictionReason;
+}
+
+/**
+ * Очистка registry (CreateFormConfig.eviction)
+ *
+ * Кандидат на удаление — экземпляр без смонтированных useForm (refCount = 0):
+ * - "never" — экземпляры не удаляются (по умолчанию)
+ * - "immediate" — сразу после размонтирования последнего useForm
+ * - "ttl" — через ttl мс, если за это время форму не смонтировали снова
+ * - "lru" — при превышении maxEntries экземпляров типа удаляются давно неиспользуемые
+ *
+ * Черновики (persistId) при удалении сохраняются — новый экземпляр восстановит их.
+ *
+ * Экземпляр, созданный вне React (createFormController) и ни разу не смонтированный
+ * через useForm, по eviction не удаляется — его удаляют вручную через removeFormStore.
+ */
+export type FormEvictionOptions = (
+  | { strategy: "never" }
+  | { strategy: "immediate" }
+  | { strategy: "ttl"; ttl: number }
+  | { strategy: "lru"; maxEntries: number }
+) & {
+  /** Вызывается после удаления экземпляра */
+  onEvict?: (info: FormEvictionInfo) => void;
+};
+
+/**
+ * Конфигурация для createForm (модульный уровень)
+ */
+export interface CreateFormConfig<TValues extends Record<string, any>> {
+  /** Конфигурация полей */
+  config: FormConfig<TValues>;
+
+  /** Значения по умолчанию */
+  defaults: TValues;
+
+  /**
+   * Ссылка на хук i18n (например useTranslations).
+   * Вызывается внутри useForm, в React-контексте.
+   * Если не указан — используется defaultTranslate (key => key).
+   */
+  translateFunction?: () => TranslateFn | ((key: string, params?: Record<string, any>) => string);
+
+  /**
+   * Тип формы — для уникального ключа в registry.
+   * Registry key = "type:id", например "Order:NewOrder"
+   */
+  type: string;
+
+  /**
+   * Ключ ошибки для пустых обязательных полей (isRequired)
+   * По умолчанию "validation.required". Переопределяется в FieldConfig.requiredError
+   */
+  requiredError?: string;
+
+  /**
+   * Когда показывать ошибки полей (по умолчанию "onSubmit")
+   * Переопределяется в FieldConfig.validationMode
+   */
+  validationMode?: ValidationMode;
+
+  /**
+   * Валидатор уровня формы — перекрёстные правила объявляются один раз
+   * Возвращает ошибки по путям полей (и FORM_ERROR_KEY для ошибки всей формы),
+   * пересчитывается при каждом изменении values
+   */
+  validate?: FormValidator<TValues>;
+
+  /**
+   * Схема валидации values (zodAdapter / valibotAdapter / yupAdapter)
+   * Ошибки схемы сопоставляются полям по путям ("passport.number")
+   * и участвуют в isValid и submit
+   */
+  schema?: SchemaAdapter<TValues>;
+
+  /**
+   * История правок для undo / redo (по умолчанию выключена)
+   * true — с настройками по умолчанию
+   */
+  history?: boolean | FormHistoryOptions;
+
+  /**
+   * Middleware действий формы: (next, api) => (action, state) => state
+   * Логирование, аналитика, аудит, инварианты (первый в списке — внешний)
+   */
+  middleware?: Array<FormMiddleware<TValues>>;
+
+  /**
+   * Удаление неиспользуемых экземпляров из registry (по умолчанию — никогда)
+   *
+   * @example
+   * eviction: { strategy: "ttl", ttl: 60_000, onEvict: ({ key }) => console.log(key) }
+   */
+  eviction?: FormEvictionOptions;
+
+  /**
+   * Черновики: хранилище или настройки с версией и миграциями
+   * (по умолчанию localStorageAdapter(), версия 0). false — черновики не сохраняются
+   *
+   * @example
+   * persist: indexedDbAdapter({ dbName: "drafts" })
+   *
+   * persist: {
+   *   version: 2,
+   *   migrations: {
+   *     1: ({ cardNumber, ...values }) => ({ ...values, card: { number: cardNumber } }),
+   *     2: (values) => ({ ...values, passport: { number: values.passportNumber } }),
+   *   },
+   * }
+   */
+  persist?: false | PersistenceAdapter | FormPersistOptions;
+}
+
 // ============================================================================
 // Field Props Types
 // ============================================================================
@@ -419,6 +969,10 @@ export interface FormState<TValues extends Record<string, any>> {
 export interface FieldProps<TValue = any> extends ComputedFieldState<TValue> {
   /** Колбэк изменения значения (для controlled компонентов) */
   onValueChange: (value: InputValueType<TValue>) => void;
+  /** Колбэк получения фокуса — отмечает поле в visitedFields */
+  onFocus: () => void;
+  /** Колбэк потери фокуса — отмечает поле в touchedFields (для validationMode onBlur/onTouched) */
+  onBlur: () => void;
   /** Флаг наличия ошибки (HeroUI-совместимый) */
   isInvalid: boolean;
   /** Текст ошибки (алиас для error, HeroUI-совместимый) */
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createAsyncValidationRunner } from "./asyncValidation";
+import { createStore } from "../createStore";
+import { createTestContext, createTestState } from "../actions/testUtils";
+import { setFieldValue } from "../actions/setFieldValue";
+import type { FieldConfig, FormConfig, FormState } from "../types";
+
+type SignupValues = { email: string };
+
+type ValidateAsync = NonNullable<FieldConfig<string, SignupValues>["validateAsync"]>;
+
+const setup = (validateAsync: ValidateAsync) => {
+  const config: FormConfig<SignupValues> = {
+    email: { value: "", validateAsync, asyncDebounce: 100 },
+  };
+  const ctx = createTestContext(config);
+  const store = createStore<FormState<SignupValues>>(createTestState({ email: "" }, ctx));
+  const runner = createAsyncValidationRunner(store, () => ctx);
+  const setEmail = (value: string) =>
+    store.setState((prev) => setFieldValue(prev, "email", value, ctx));
+
+  return { store, runner, setEmail };
+};
+
+describe("createAsyncValidationRunner", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should debounce and mark field as validating", async () => {
+    const validateAsync = vi.fn(async (value: string) =>
+      value === "taken@mail.com" ? "validation.emailTaken" : undefined
+    );
+    const { store, setEmail } = setup(validateAsync);
+
+    setEmail("taken@mail.com");
+    expect(store.getState().fields.email.isValidating).toBe(true);
+    expect(validateAsync).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(validateAsync).toHaveBeenCalledTimes(1);
+    expect(store.getState().fields.email.isValidating).toBe(false);
+    expect(store.getState().asyncErrors.email).toBe("validation.emailTaken");
+  });
+
+  it("should abort stale runs when value changes again", async () => {
+    const signals: AbortSignal[] = [];
+    const resolvers: Array<(error: string | undefined) => void> = [];
+    const validateAsync = vi.fn(
+      (_value: string, _values: SignupValues, { signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        return new Promise<string | undefined>((resolve) => resolvers.push(resolve));
+      }
+    );
+    const { store, setEmail } = setup(validateAsync);
+
+    setEmail("first@mail.com");
+    await vi.advanceTimersByTimeAsync(100);
+    setEmail("second@mail.com");
+
+    expect(signals[0].aborted).toBe(true);
+
+    // Устаревший результат игнорируется
+    resolvers[0]("validation.emailTaken");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.getState().asyncErrors.email).toBeUndefined();
+    expect(store.getState().fields.email.isValidating).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    resolvers[1](undefined);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(validateAsync).toHaveBeenCalledTimes(2);
+    expect(store.getState().fields.email.isValidating).toBe(false);
+  });
+
+  it("should run pending validations immediately in validateAll", async () => {
+    const validateAsync = vi.fn(async () => "validation.emailTaken");
+    const { store, runner, setEmail } = setup(validateAsync);
+
+    setEmail("taken@mail.com");
+    await runner.validateAll();
+
+    expect(validateAsync).toHaveBeenCalledTimes(1);
+    expect(store.getState().asyncErrors.email).toBe("validation.emailTaken");
+    expect(store.getState().validating).toEqual({});
+  });
+});
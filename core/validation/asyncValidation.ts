@@ -0,0 +1,212 @@
+/**
+ * Асинхронная валидация полей (FieldConfig.validateAsync)
+ *
+ * Раннер подписывается на store и следит за значениями полей с validateAsync:
+ * - при изменении значения сразу ставит isValidating и сбрасывает прежнюю ошибку
+ * - запускает проверку через `asyncDebounce` мс
+ * - отменяет устаревший запуск (AbortController), если значение снова изменилось
+ * - результат устаревшего запуска игнорируется, даже если validateAsync не слушает signal
+ */
+
+import type { FormState, Store } from "../types";
+import type { ActionContext } from "../actions/createInitialState";
+import type { AsyncValidationResult } from "../actions/setAsyncValidation";
+import { formReducer, type FormAction } from "../actions/formReducer";
+import { getFieldConfigByPath } from "../../utils/pathUtils";
+
+/** Задержка перед запуском validateAsync по умолчанию */
+export const DEFAULT_ASYNC_DEBOUNCE = 300;
+
+export interface AsyncValidationRunner {
+  /**
+   * Немедленно запускает отложенные и ещё не выполненные проверки
+   * и дожидается всех незавершённых (используется в submit)
+   */
+  validateAll: () => Promise<void>;
+  /** Отписывается от store и отменяет все проверки */
+  dispose: () => void;
+}
+
+/** Состояние проверки одного поля */
+interface PendingValidation {
+  /** Значение, для которого запущена (или запланирована) проверка */
+  value: unknown;
+  timer?: ReturnType<typeof setTimeout>;
+  controller?: AbortController;
+  promise?: Promise<void>;
+}
+
+/**
+ * Создаёт раннер асинхронной валидации для store
+ *
+ * @param store - store формы
+ * @param getActionCtx - актуальный ActionContext (config + translate)
+ * @param dispatch - выполнение действий (по умолчанию formReducer без middleware)
+ */
+export function createAsyncValidationRunner<TValues extends Record<string, any>>(
+  store: Store<FormState<TValues>>,
+  getActionCtx: () => ActionContext<TValues>,
+  dispatch: (action: FormAction<TValues>) => void = (action) =>
+    store.setState((prev) => formReducer(prev, action, getActionCtx()))
+): AsyncValidationRunner {
+  const pending = new Map<string, PendingValidation>();
+
+  const setResult = (key: string, result: AsyncValidationResult) =>
+    dispatch({ type: "setAsyncValidation", key, result });
+
+  const getAsyncKeys = (state: FormState<TValues>): string[] => {
+    const { config } = getActionCtx();
+    return Object.keys(state.fields).filter(
+      (key) => !!getFieldConfigByPath(config, key)?.validateAsync
+    );
+  };
+
+  const cancel = (entry: PendingValidation) => {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.controller?.abort();
+    entry.timer = undefined;
+    entry.controller = undefined;
+    entry.promise = undefined;
+  };
+
+  const run = (key: string, entry: PendingValidation): Promise<void> => {
+    const ctx = getActionCtx();
+    const validateAsync = getFieldConfigByPath(ctx.config, key)?.validateAsync;
+    if (!validateAsync) return Promise.resolve();
+
+    const controller = new AbortController();
+    const { value } = entry;
+    entry.timer = undefined;
+    entry.controller = controller;
+
+    const isStale = () =>
+      controller.signal.aborted || pending.get(key) !== entry || !Object.is(entry.value, value);
+
+    const promise = Promise.resolve()
+      .then(() => validateAsync(value, store.getState().values, { signal: controller.signal }))
+      .then(
+        (error) => {
+          if (isStale()) return;
+          setResult(key, { validating: false, error });
+        },
+        (err) => {
+          if (isStale()) return;
+          // eslint-disable-next-line no-console
+          console.error("[Palistor] validateAsync error:", err);
+          setResult(key, { validating: false });
+        }
+      )
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  };
+
+  const schedule = (key: string, value: unknown) => {
+    const existing = pending.get(key);
+    if (existing) cancel(existing);
+
+    const entry: PendingValidation = existing ?? { value };
+    entry.value = value;
+    pending.set(key, entry);
+
+    setResult(key, { validating: true });
+
+    const debounce =
+      getFieldConfigByPath(getActionCtx().config, key)?.asyncDebounce ?? DEFAULT_ASYNC_DEBOUNCE;
+
+    entry.timer = setTimeout(() => {
+      void run(key, entry);
+    }, debounce);
+  };
+
+  // ==========================================================================
+  // Подписка на изменения values
+  // ==========================================================================
+
+  let prevValues = store.getState().values;
+
+  const handleChange = () => {
+    const state = store.getState();
+    if (state.values === prevValues) return;
+    prevValues = state.values;
+
+    const asyncKeys = getAsyncKeys(state);
+
+    // Поля, которые исчезли (удалённые элементы массива)
+    for (const [key, entry] of pending) {
+      if (state.fields[key]) continue;
+      cancel(entry);
+      pending.delete(key);
+      setResult(key, { validating: false });
+    }
+
+    for (const key of asyncKeys) {
+      const value = state.fields[key].value;
+      const entry = pending.get(key);
+
+      // Для начальных значений проверка не запускается до изменения или submit
+      if (!entry && Object.is(value, getInitialValue(state, key))) continue;
+
+      if (entry && Object.is(entry.value, value)) continue;
+
+      schedule(key, value);
+    }
+  };
+
+  const unsubscribe = store.subscribe(handleChange);
+
+  // ==========================================================================
+  // API
+  // ==========================================================================
+
+  const validateAll = async (): Promise<void> => {
+    const state = store.getState();
+
+    for (const key of getAsyncKeys(state)) {
+      const value = state.fields[key].value;
+      let entry = pending.get(key);
+
+      // Ещё не проверялось (начальное значение) — запускаем
+      if (!entry || !Object.is(entry.value, value)) {
+        schedule(key, value);
+        entry = pending.get(key)!;
+      }
+
+      // Отложенная проверка — запускаем немедленно
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        void run(key, entry);
+      }
+    }
+
+    const promises = Array.from(pending.values())
+      .map((entry) => entry.promise)
+      .filter((promise): promise is Promise<void> => !!promise);
+
+    await Promise.all(promises);
+  };
+
+  const dispose = () => {
+    unsubscribe();
+    pending.forEach(cancel);
+    pending.clear();
+  };
+
+  return { validateAll, dispose };
+}
+
+/**
+ * Значение поля в initialValues по пути
+ */
+function getInitialValue<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string
+): unknown {
+  return key.split(".").reduce((obj: any, k) => obj?.[k], state.initialValues);
+}
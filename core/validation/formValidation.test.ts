@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { FORM_ERROR_KEY } from "./formValidation";
+import { createTestContext, createTestState } from "../actions/testUtils";
+import { setFieldValue } from "../actions/setFieldValue";
+import { isFormValid } from "../actions/isFormValid";
+import type { FormConfig } from "../types";
+
+type TripValues = {
+  passport: { issueDate: string; expiryDate: string };
+  total: number;
+};
+
+const config: FormConfig<TripValues> = {
+  passport: { nested: true, issueDate: { value: "" }, expiryDate: { value: "" } },
+  total: { value: 0 },
+};
+
+/** Перекрёстное правило, как validatePassportDates в app-demo */
+const validatePassportDates = ({ passport }: TripValues) =>
+  passport.issueDate && passport.expiryDate && passport.expiryDate <= passport.issueDate
+    ? { "passport.expiryDate": "validation.expiryBeforeIssue" }
+    : undefined;
+
+const ctx = createTestContext(config, { validate: validatePassportDates });
+
+describe("form-level validate", () => {
+  it("should put cross-field error on the field and clear it when another field changes", () => {
+    const state = createTestState(
+      { passport: { issueDate: "2024-05-01", expiryDate: "2024-01-01" }, total: 0 },
+      ctx
+    );
+
+    expect(state.errors).toEqual({ "passport.expiryDate": "validation.expiryBeforeIssue" });
+    expect(state.fields["passport.expiryDate"].errorKey).toBe("validation.expiryBeforeIssue");
+    expect(isFormValid(state)).toBe(false);
+
+    // Меняется issueDate — ошибка на expiryDate пересчитывается
+    const fixed = setFieldValue(state, "passport.issueDate", "2023-05-01", ctx);
+    expect(fixed.errors).toEqual({});
+    expect(fixed.fields["passport.expiryDate"].errorKey).toBeUndefined();
+    expect(isFormValid(fixed)).toBe(true);
+  });
+
+  it("should make form invalid for form-level errors without a field", () => {
+    const limitCtx = createTestContext(config, {
+      validate: () => ({ [FORM_ERROR_KEY]: "validation.limitExceeded" }),
+    });
+    const state = createTestState(
+      { passport: { issueDate: "", expiryDate: "" }, total: 100 },
+      limitCtx
+    );
+
+    expect(state.errors).toEqual({});
+    expect(state.formErrors).toEqual({ [FORM_ERROR_KEY]: "validation.limitExceeded" });
+    expect(isFormValid(state)).toBe(false);
+  });
+});
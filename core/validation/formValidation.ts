@@ -0,0 +1,93 @@
+/**
+ * Валидаторы уровня формы: CreateFormConfig.validate и CreateFormConfig.schema
+ *
+ * Оба проверяют values целиком, поэтому ошибка поля может измениться
+ * при изменении другого поля ("expiryDate" ← "issueDate"). Действия
+ * пересчитывают такие поля отдельно — по getChangedErrorKeys.
+ */
+
+import type { ValidationError } from "../types";
+import type { ActionContext } from "../actions/createInitialState";
+import { isDeepEqual } from "../../utils/helpers";
+
+/**
+ * Ключ ошибки всей формы (не относится к конкретному полю)
+ *
+ * @example
+ * validate: (values) => values.total > values.limit
+ *   ? { [FORM_ERROR_KEY]: "validation.limitExceeded" }
+ *   : undefined
+ */
+export const FORM_ERROR_KEY = "_form";
+
+/** Нет ошибок уровня формы (общая ссылка — без лишних пересчётов) */
+export const EMPTY_FORM_ERRORS: Record<string, ValidationError> = {};
+
+/**
+ * Запускает validate и schema формы
+ *
+ * При совпадении путей ошибка validate приоритетнее ошибки схемы.
+ *
+ * @param ctx - контекст (validate и schema формы)
+ * @param values - значения формы
+ * @param prevErrors - предыдущие ошибки уровня формы
+ * @returns ошибки по путям (prevErrors, если ничего не изменилось)
+ */
+export function runFormValidators<TValues extends Record<string, any>>(
+  ctx: ActionContext<TValues>,
+  values: TValues,
+  prevErrors: Record<string, ValidationError> = EMPTY_FORM_ERRORS
+): Record<string, ValidationError> {
+  const { schema, validate } = ctx;
+  if (!schema && !validate) return EMPTY_FORM_ERRORS;
+
+  let errors: Record<string, ValidationError>;
+  try {
+    errors = {
+      ...schema?.validate(values),
+      ...omitEmpty(validate?.(values)),
+    };
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("[Palistor] form validation error:", err);
+    return prevErrors;
+  }
+
+  if (Object.keys(errors).length === 0) {
+    errors = EMPTY_FORM_ERRORS;
+  }
+
+  return isDeepEqual(errors, prevErrors) ? prevErrors : errors;
+}
+
+/**
+ * Пути, ошибка по которым отличается в prev и next
+ *
+ * @example
+ * getChangedErrorKeys({ a: "x", b: "y" }, { b: "z", c: "w" }) // → ["a", "b", "c"]
+ */
+export function getChangedErrorKeys(
+  prev: Record<string, ValidationError>,
+  next: Record<string, ValidationError>
+): string[] {
+  if (prev === next) return [];
+
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return Array.from(keys).filter((key) => !isDeepEqual(prev[key], next[key]));
+}
+
+/**
+ * Убирает пути без ошибки ({ a: undefined } → {})
+ */
+function omitEmpty(
+  errors: Record<string, ValidationError | undefined> | undefined
+): Record<string, ValidationError> {
+  const result: Record<string, ValidationError> = {};
+  if (!errors) return result;
+
+  for (const [key, error] of Object.entries(errors)) {
+    if (error) result[key] = error;
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { zodAdapter, yupAdapter, valibotAdapter, type ZodLikeSchema } from "./schemaAdapters";
+import { createTestContext, createTestState } from "../actions/testUtils";
+import { setFieldValue } from "../actions/setFieldValue";
+import { isFormValid } from "../actions/isFormValid";
+import type { FormConfig } from "../types";
+
+type TravelValues = {
+  passport: { number: string };
+  password: string;
+  confirm: string;
+};
+
+// Схема в формате Zod: safeParse → { success, error.issues }
+const zodLikeSchema: ZodLikeSchema = {
+  safeParse: (data: any) => {
+    const issues: Array<{ path: PropertyKey[]; message: string }> = [];
+    if (data.passport.number.length !== 10) {
+      issues.push({ path: ["passport", "number"], message: "validation.passportNumber" });
+    }
+    if (data.password !== data.confirm) {
+      issues.push({ path: ["confirm"], message: "validation.passwordMismatch" });
+    }
+    return issues.length ? { success: false, error: { issues } } : { success: true };
+  },
+};
+
+const config: FormConfig<TravelValues> = {
+  passport: { nested: true, number: { value: "" } },
+  password: { value: "" },
+  confirm: { value: "" },
+};
+
+const ctx = createTestContext(config, { schema: zodAdapter(zodLikeSchema) });
+
+const emptyValues: TravelValues = { passport: { number: "" }, password: "", confirm: "" };
+
+describe("schema adapters", () => {
+  it("should map zod issues to nested field paths", () => {
+    const state = createTestState(emptyValues, ctx);
+
+    expect(state.errors).toEqual({ "passport.number": "validation.passportNumber" });
+    expect(state.fields["passport.number"].errorKey).toBe("validation.passportNumber");
+  });
+
+  it("should recompute fields affected by cross-field schema rules", () => {
+    const state = setFieldValue(createTestState(emptyValues, ctx), "password", "secret", ctx);
+
+    expect(state.fields.confirm.errorKey).toBe("validation.passwordMismatch");
+    expect(isFormValid(state)).toBe(false);
+
+    const fixed = setFieldValue(
+      setFieldValue(state, "confirm", "secret", ctx),
+      "passport.number",
+      "1234567890",
+      ctx
+    );
+    expect(fixed.errors).toEqual({});
+    expect(isFormValid(fixed)).toBe(true);
+  });
+
+  it("should make form invalid for errors on paths without a field", () => {
+    const state = createTestState(
+      { ...emptyValues, passport: { number: "1234567890" } },
+      createTestContext(config, { schema: { validate: () => ({ "": "validation.formInvalid" }) } })
+    );
+
+    expect(state.errors).toEqual({});
+    expect(isFormValid(state)).toBe(false);
+  });
+
+  it("should normalize yup and standard schema paths", () => {
+    const yupError = Object.assign(new Error("2 errors"), {
+      name: "ValidationError",
+      inner: [
+        { path: "items[0].price", message: "validation.priceMin" },
+        { path: "items[0].price", message: "validation.priceInteger" },
+      ],
+    });
+    const yupSchema = {
+      validateSync: () => {
+        throw yupError;
+      },
+    };
+    const valibotSchema = {
+      "~standard": {
+        validate: () => ({
+          issues: [{ path: [{ key: "items" }, { key: 0 }, { key: "name" }], message: "validation.required" }],
+        }),
+      },
+    };
+
+    expect(yupAdapter(yupSchema).validate({})).toEqual({ "items.0.price": "validation.priceMin" });
+    expect(valibotAdapter(valibotSchema).validate({})).toEqual({
+      "items.0.name": "validation.required",
+    });
+  });
+});
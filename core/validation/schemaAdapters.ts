@@ -0,0 +1,189 @@
+/**
+ * Адаптеры схем валидации для CreateFormConfig.schema
+ *
+ * Библиотеки не импортируются — адаптеры работают с публичным API схемы:
+ * - Zod: schema.safeParse(values)
+ * - Valibot (и любая Standard Schema): schema["~standard"].validate(values)
+ * - Yup: schema.validateSync(values, { abortEarly: false })
+ *
+ * Сообщение ошибки используется как ключ перевода:
+ * z.string().min(1, "validation.required") → fields[key].errorKey === "validation.required"
+ * Ошибка без пути (refine на всей схеме) попадает в FORM_ERROR_KEY.
+ */
+
+import type { SchemaAdapter, ValidationError } from "../types";
+import { FORM_ERROR_KEY } from "./formValidation";
+
+/** Ошибка схемы с путём до поля */
+interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/** Минимальный интерфейс Zod-схемы */
+export interface ZodLikeSchema {
+  safeParse: (data: unknown) =>
+    | { success: true }
+    | { success: false; error: { issues: ReadonlyArray<{ path: ReadonlyArray<PropertyKey>; message: string }> } };
+}
+
+/** Минимальный интерфейс Standard Schema (Valibot ≥ 1, Zod ≥ 3.24, ArkType) */
+export interface StandardSchemaLike {
+  "~standard": {
+    validate: (value: unknown) => StandardSchemaResult | Promise<StandardSchemaResult>;
+  };
+}
+
+interface StandardSchemaResult {
+  issues?: ReadonlyArray<{
+    message: string;
+    path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+  }>;
+}
+
+/** Минимальный интерфейс Yup-схемы */
+export interface YupLikeSchema {
+  validateSync: (value: unknown, options: { abortEarly: boolean }) => unknown;
+}
+
+/** Минимальная структура ValidationError из Yup */
+interface YupValidationError {
+  name: "ValidationError";
+  path?: string;
+  message: string;
+  inner?: YupValidationError[];
+}
+
+/**
+ * Адаптер для Zod
+ *
+ * @example
+ * const schema = z.object({
+ *   passport: z.object({ number: z.string().length(10, "validation.passportNumber") }),
+ * });
+ * createForm({ ..., schema: zodAdapter(schema) });
+ */
+export function zodAdapter<TValues extends Record<string, any>>(
+  schema: ZodLikeSchema
+): SchemaAdapter<TValues> {
+  return {
+    validate: (values) => {
+      const result = schema.safeParse(values);
+      if (result.success) return {};
+
+      return issuesToErrors(
+        result.error.issues.map((issue) => ({
+          path: issue.path.map(String).join("."),
+          message: issue.message,
+        }))
+      );
+    },
+  };
+}
+
+/**
+ * Адаптер для любой Standard Schema (синхронной)
+ *
+ * @example
+ * createForm({ ..., schema: standardSchemaAdapter(arktypeSchema) });
+ */
+export function standardSchemaAdapter<TValues extends Record<string, any>>(
+  schema: StandardSchemaLike
+): SchemaAdapter<TValues> {
+  return {
+    validate: (values) => {
+      const result = schema["~standard"].validate(values);
+
+      if (result instanceof Promise) {
+        throw new Error("[Palistor] Async schemas are not supported, use FieldConfig.validateAsync");
+      }
+
+      return issuesToErrors(
+        (result.issues ?? []).map((issue) => ({
+          path: (issue.path ?? [])
+            .map((segment) => String(typeof segment === "object" ? segment.key : segment))
+            .join("."),
+          message: issue.message,
+        }))
+      );
+    },
+  };
+}
+
+/**
+ * Адаптер для Valibot (через Standard Schema, Valibot ≥ 1)
+ *
+ * @example
+ * const schema = v.object({ email: v.pipe(v.string(), v.email("validation.email")) });
+ * createForm({ ..., schema: valibotAdapter(schema) });
+ */
+export function valibotAdapter<TValues extends Record<string, any>>(
+  schema: StandardSchemaLike
+): SchemaAdapter<TValues> {
+  return standardSchemaAdapter(schema);
+}
+
+/**
+ * Адаптер для Yup
+ *
+ * Пути Yup с индексами ("items[0].price") приводятся к "items.0.price".
+ *
+ * @example
+ * const schema = yup.object({ email: yup.string().email("validation.email") });
+ * createForm({ ..., schema: yupAdapter(schema) });
+ */
+export function yupAdapter<TValues extends Record<string, any>>(
+  schema: YupLikeSchema
+): SchemaAdapter<TValues> {
+  return {
+    validate: (values) => {
+      try {
+        schema.validateSync(values, { abortEarly: false });
+        return {};
+      } catch (err: unknown) {
+        if (!isYupValidationError(err)) throw err;
+
+        const errors = err.inner?.length ? err.inner : [err];
+        return issuesToErrors(
+          errors.map((error) => ({
+            path: normalizeYupPath(error.path),
+            message: error.message,
+          }))
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Ошибки по путям — для каждого пути берётся первая ошибка
+ */
+function issuesToErrors(issues: SchemaIssue[]): Record<string, ValidationError> {
+  const errors: Record<string, ValidationError> = {};
+
+  for (const { path, message } of issues) {
+    const key = path || FORM_ERROR_KEY;
+    if (!(key in errors)) {
+      errors[key] = message;
+    }
+  }
+
+  return errors;
+}
+
+/** Исключение валидации Yup (остальные ошибки пробрасываются) */
+function isYupValidationError(err: unknown): err is YupValidationError {
+  return (err as YupValidationError | null)?.name === "ValidationError";
+}
+
+/**
+ * "items[0].price" → "items.0.price", ["weird.key"] → weird.key
+ */
+function normalizeYupPath(path: string | undefined): string {
+  if (!path) return "";
+
+  return path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .replace(/\["(.+?)"\]/g, ".$1")
+    .replace(/^\./, "");
+}
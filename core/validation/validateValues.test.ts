@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { validateValues } from "./validateValues";
+import { FORM_ERROR_KEY } from "./formValidation";
+import type { FormConfig } from "../types";
+
+type PaymentValues = {
+  paymentType: "card" | "cash";
+  cardNumber: string;
+  amount: number;
+  passport: { number: string };
+};
+
+const config: FormConfig<PaymentValues> = {
+  paymentType: { value: "card" },
+  cardNumber: {
+    value: "",
+    isVisible: (values) => values.paymentType === "card",
+    isRequired: (values) => values.paymentType === "card",
+  },
+  amount: {
+    value: 0,
+    validate: (value: number) =>
+      value < 1 ? { key: "validation.amountMin", params: { min: 1 } } : undefined,
+  },
+  passport: { nested: true, number: { value: "", isRequired: true } },
+};
+
+describe("validateValues", () => {
+  it("should return raw error keys by path", () => {
+    const errors = validateValues<PaymentValues>(config, {
+      paymentType: "card",
+      cardNumber: "",
+      amount: 0,
+      passport: { number: "" },
+    });
+
+    expect(errors).toEqual({
+      cardNumber: "validation.required",
+      amount: "validation.amountMin",
+      "passport.number": "validation.required",
+    });
+  });
+
+  it("should ignore hidden fields and keep form-level errors", () => {
+    const errors = validateValues<PaymentValues>(
+      config,
+      { paymentType: "cash", cardNumber: "", amount: 5, passport: { number: "AB123" } },
+      { validate: () => ({ [FORM_ERROR_KEY]: "validation.limitExceeded" }) }
+    );
+
+    expect(errors).toEqual({ [FORM_ERROR_KEY]: "validation.limitExceeded" });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Валидация values вне формы (сервер, route handlers, server actions)
+ *
+ * Чистая функция без React: те же правила, что и на клиенте —
+ * computed, видимость, isRequired, validate полей, validate и schema формы.
+ */
+
+import type {
+  FormConfig,
+  FormValidator,
+  SchemaAdapter,
+  TranslateFn,
+} from "../types";
+import type { ActionContext } from "../actions/createInitialState";
+import { createComputeContext } from "../actions/createComputeContext";
+import { computeAllFieldStates } from "../compute/computeFieldStates";
+import { defaultTranslate } from "../compute/defaultTranslate";
+import { translateError } from "../compute/translateError";
+import { isFieldVisible } from "../compute/visibility";
+import { runFormValidators } from "./formValidation";
+
+/**
+ * Опции validateValues
+ */
+export interface ValidateValuesOptions<TValues extends Record<string, any>> {
+  /** Функция перевода (по умолчанию key => key) — для computed текстов полей */
+  translate?: TranslateFn;
+  /** Локаль (по умолчанию "auto") */
+  locale?: string;
+  /** Ключ ошибки для пустых обязательных полей (CreateFormConfig.requiredError) */
+  requiredError?: string;
+  /** Валидатор уровня формы (CreateFormConfig.validate) */
+  validate?: FormValidator<TValues>;
+  /** Схема валидации (CreateFormConfig.schema) */
+  schema?: SchemaAdapter<TValues>;
+}
+
+/**
+ * Проверяет values по FormConfig
+ *
+ * Возвращает ошибки в формате extractErrors — ключи до перевода по путям.
+ * Ошибки скрытых полей не попадают в результат (как в isFormValid),
+ * ошибки уровня формы без поля (FORM_ERROR_KEY) — попадают.
+ * Пустой объект — values валидны.
+ *
+ * @example
+ * // app/api/order/route.ts
+ * const errors = validateValues(orderConfig, await request.json(), {
+ *   validate: validateOrder,
+ * });
+ * if (Object.keys(errors).length > 0) {
+ *   return Response.json({ errors }, { status: 422 });
+ * }
+ */
+export function validateValues<TValues extends Record<string, any>>(
+  config: FormConfig<TValues>,
+  values: TValues,
+  options: ValidateValuesOptions<TValues> = {}
+): Record<string, string> {
+  const ctx: ActionContext<TValues> = {
+    config,
+    translate: options.translate ?? defaultTranslate,
+    locale: options.locale ?? "auto",
+    requiredError: options.requiredError,
+    validate: options.validate,
+    schema: options.schema,
+  };
+
+  const formErrors = runFormValidators(ctx, values);
+  const fields = computeAllFieldStates(
+    createComputeContext(
+      {
+        values,
+        initialValues: values,
+        asyncErrors: {},
+        formErrors,
+        externalErrors: {},
+        validating: {},
+        touchedFields: {},
+      },
+      ctx
+    )
+  );
+
+  const errors: Record<string, string> = {};
+
+  // Ошибки видимых полей
+  for (const key of Object.keys(fields)) {
+    const { errorKey } = fields[key];
+    if (errorKey && isFieldVisible(fields, key)) {
+      errors[key] = errorKey;
+    }
+  }
+
+  // Ошибки уровня формы, которые не сопоставились ни одному полю
+  for (const key of Object.keys(formErrors)) {
+    if (!fields[key]) {
+      const { errorKey } = translateError(formErrors[key], ctx.translate);
+      if (errorKey) {
+        errors[key] = errorKey;
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { isErrorVisible } from "./validationMode";
+import { createForm } from "../createForm";
+import { removeFormStore } from "../registry";
+import type { FormConfig, ValidationMode } from "../types";
+
+type ContactValues = { email: string };
+
+const createContactForm = (validationMode: ValidationMode) => {
+  const config: FormConfig<ContactValues> = {
+    email: {
+      value: "",
+      validate: (value: string) => (!value.includes("@") ? "validation.email" : undefined),
+    },
+  };
+  const type = `Contact_${validationMode}`;
+  const { createController } = createForm<ContactValues>({
+    type,
+    config,
+    defaults: { email: "" },
+    persist: false,
+    validationMode,
+  });
+
+  return { controller: createController("1"), dispose: () => removeFormStore(type, "1") };
+};
+
+describe("validationMode", () => {
+  it("onSubmit: should show errors only after submit", async () => {
+    const { controller, dispose } = createContactForm("onSubmit");
+
+    controller.changeField("email", "john");
+    controller.blurField("email");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(false);
+
+    await controller.submit();
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+
+    dispose();
+  });
+
+  it("onBlur: should show error on blur and keep it updated while typing", () => {
+    const { controller, dispose } = createContactForm("onBlur");
+
+    controller.changeField("email", "john");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(false);
+
+    controller.blurField("email");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+    expect(controller.getState().touchedFields.email).toBe(true);
+
+    controller.changeField("email", "john.");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+    expect(controller.getState().fields.email.errorKey).toBe("validation.email");
+
+    controller.changeField("email", "john@example.com");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+    expect(controller.getState().fields.email.errorKey).toBeUndefined();
+
+    dispose();
+  });
+
+  it("onChange: should show error on first input", () => {
+    const { controller, dispose } = createContactForm("onChange");
+
+    controller.focusField("email");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(false);
+    expect(controller.getState().visitedFields.email).toBe(true);
+
+    controller.changeField("email", "j");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+
+    dispose();
+  });
+
+  it("onTouched: should show error after blur and keep it while typing", () => {
+    const { controller, dispose } = createContactForm("onTouched");
+
+    controller.changeField("email", "john");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(false);
+
+    controller.blurField("email");
+    controller.changeField("email", "john.");
+    expect(isErrorVisible(controller.getState(), "email")).toBe(true);
+
+    dispose();
+  });
+
+  it("should apply input and error visibility in one update", () => {
+    const { controller, dispose } = createContactForm("onChange");
+    const listener = vi.fn();
+    const unsubscribe = controller.subscribe(listener);
+
+    controller.changeField("email", "j");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(controller.getState()).toMatchObject({
+      values: { email: "j" },
+      visibleErrors: { email: true },
+    });
+
+    unsubscribe();
+    dispose();
+  });
+});
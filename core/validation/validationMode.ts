@@ -0,0 +1,76 @@
+/**
+ * Режимы показа ошибок (validationMode)
+ *
+ * Ошибки вычисляются всегда — режим определяет только, когда
+ * ошибка поля становится видимой (FormState.visibleErrors).
+ */
+
+import type { FormConfig, FormState, ValidationMode } from "../types";
+import { getFieldConfigByPath } from "../../utils/pathUtils";
+
+/** Режим показа ошибок по умолчанию — после submit */
+export const DEFAULT_VALIDATION_MODE: ValidationMode = "onSubmit";
+
+/** Взаимодействие пользователя с полем */
+export type FieldInteraction = "focus" | "change" | "blur";
+
+/**
+ * Режим поля: FieldConfig.validationMode → режим формы → onSubmit
+ *
+ * @example
+ * resolveValidationMode(config, "passport.number", "onBlur") // → "onBlur"
+ */
+export function resolveValidationMode(
+  config: FormConfig<any>,
+  key: string,
+  formMode: ValidationMode | undefined
+): ValidationMode {
+  return getFieldConfigByPath(config, key)?.validationMode ?? formMode ?? DEFAULT_VALIDATION_MODE;
+}
+
+/**
+ * Видимость ошибки поля после события
+ *
+ * | режим     | change   | blur     |
+ * |-----------|----------|----------|
+ * | onSubmit  | —        | —        |
+ * | onBlur    | —        | показать |
+ * | onChange  | показать | —        |
+ * | onTouched | —        | показать |
+ *
+ * focus видимость не меняет.
+ *
+ * @param mode - режим поля
+ * @param interaction - событие
+ * @param visible - текущая видимость
+ */
+export function getErrorVisibility(
+  mode: ValidationMode,
+  interaction: FieldInteraction,
+  visible: boolean
+): boolean {
+  if (interaction === "focus") return visible;
+
+  switch (mode) {
+    case "onChange":
+      return interaction === "change" ? true : visible;
+    case "onBlur":
+    case "onTouched":
+      return interaction === "blur" ? true : visible;
+    default:
+      return visible;
+  }
+}
+
+/**
+ * Показывается ли ошибка поля (submit, validationMode или внешняя ошибка)
+ *
+ * @example
+ * const isInvalid = isErrorVisible(state, "email") && !!state.fields.email.error;
+ */
+export function isErrorVisible<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string
+): boolean {
+  return state.showErrors || !!state.visibleErrors[key] || key in state.externalErrors;
+}
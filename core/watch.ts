@@ -0,0 +1,48 @@
+/**
+ * Наблюдение за значениями по путям (watch / useWatch)
+ *
+ * Значения сравниваются глубоко (isDeepEqual): вложенный объект
+ * ("passport") считается изменённым, только если изменилось его содержимое.
+ */
+
+import type { FormState, Store } from "./types";
+import { subscribeWithSelector } from "./createStore";
+import { isDeepEqual } from "../utils/helpers";
+
+/**
+ * Значения по путям ("country", "passport.issueDate", "items.0.price")
+ * Путь, которого нет в values (удалённый элемент массива), даёт undefined
+ */
+export function selectWatchedValues(
+  values: Record<string, any>,
+  paths: ReadonlyArray<string>
+): unknown[] {
+  return paths.map((path) =>
+    path.split(".").reduce((obj: any, key) => obj?.[key], values)
+  );
+}
+
+/**
+ * Подписывается на значения по путям
+ * callback вызывается, только когда значения изменились (глубокое сравнение)
+ *
+ * @param store - store формы
+ * @param paths - путь или список путей
+ * @param callback - новые и предыдущие значения (для списка — кортежи)
+ * @returns функция отписки
+ */
+export function watchValues<TValues extends Record<string, any>>(
+  store: Store<FormState<TValues>>,
+  paths: string | ReadonlyArray<string>,
+  callback: (value: any, prevValue: any) => void
+): () => void {
+  const isSingle = typeof paths === "string";
+  const list = isSingle ? [paths] : paths;
+
+  return subscribeWithSelector(
+    store,
+    (state) => selectWatchedValues(state.values, list),
+    (next, prev) => (isSingle ? callback(next[0], prev[0]) : callback(next, prev)),
+    isDeepEqual
+  );
+}
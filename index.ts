@@ -43,7 +43,74 @@
 // ============================================================================
 
 export { createForm } from "./core/createForm";
-export type { CreateFormConfig, UseFormOptions, UseFormReturn } from "./core/createForm";
+export type {
+  CreateFormConfig,
+  UseFormOptions,
+  UseFormReturn,
+  UseWatch,
+} from "./core/createForm";
+
+// ============================================================================
+// Controller (без React)
+// ============================================================================
+
+export { createFormController } from "./core/createFormController";
+export type {
+  FormController,
+  FormControllerOptions,
+  FormActions,
+} from "./core/createFormController";
+export {
+  getFormStore,
+  hasFormStore,
+  removeFormStore,
+  getRegistryKeys,
+  subscribeRegistry,
+} from "./core/registry";
+export { listDrafts, removeDraft } from "./core/drafts";
+
+export { subscribeWithSelector } from "./core/createStore";
+
+// ============================================================================
+// Действия и middleware
+// ============================================================================
+
+export { formReducer } from "./core/actions/formReducer";
+export type { FormAction, FormActionType } from "./core/actions/formReducer";
+export { applyMiddleware } from "./core/middleware/applyMiddleware";
+export type {
+  FormMiddleware,
+  FormMiddlewareApi,
+  FormDispatchHandler,
+} from "./core/middleware/applyMiddleware";
+export { loggerMiddleware } from "./core/middleware/loggerMiddleware";
+export { persistMiddleware } from "./core/middleware/persistMiddleware";
+export type { PersistMiddlewareOptions } from "./core/middleware/persistMiddleware";
+export { devtoolsMiddleware } from "./core/middleware/devtoolsMiddleware";
+export type {
+  DevtoolsOptions,
+  DevtoolsConnector,
+  DevtoolsConnection,
+  DevtoolsMessage,
+} from "./core/middleware/devtoolsMiddleware";
+
+// ============================================================================
+// React-хуки для controller (выборочная подписка)
+// ============================================================================
+
+export { useField } from "./react/useField";
+export { useFormState } from "./react/useFormState";
+export { useWatch } from "./react/useWatch";
+export { useSelector, shallowEqual } from "./react/useSelector";
+
+// ============================================================================
+// Инспектор (отладка)
+// ============================================================================
+
+export { PalistorInspector } from "./react/PalistorInspector";
+export type { PalistorInspectorProps } from "./react/PalistorInspector";
+export { getDependencyGraph } from "./core/compute/dependencyGraph";
+export type { DependencyGraph, DependencyEdge } from "./core/compute/dependencyGraph";
 
 // ============================================================================
 // Типы для конфигурации
@@ -58,7 +125,55 @@ export type {
   InputValueType,
   NestedKeyOf,
   NestedValueOf,
+  ArrayItemOf,
+  FieldArrayOperation,
+  ValidationError,
+  ValidationMode,
+  SchemaAdapter,
+  FormValidator,
+  SubmitStatus,
+  WatchedValues,
+  FormHistoryOptions,
+  FormEvictionOptions,
+  FormEvictionInfo,
+  FormEvictionReason,
+  PersistenceAdapter,
+  PersistedDraft,
+  DraftMigrations,
+  FormPersistOptions,
+  DraftEncryption,
+  DraftWriteOptions,
+  DraftDescriptor,
+  DraftRestoreMode,
 } from "./core/types";
+export type { FormHistoryState } from "./core/history/formHistory";
+
+// ============================================================================
+// Хранилища черновиков
+// ============================================================================
+
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  indexedDbAdapter,
+  memoryAdapter,
+  createWebStorageAdapter,
+  createDraftEnvelope,
+  readDraftEnvelope,
+  encodeDraft,
+  decodeDraft,
+  getPersistableValues,
+  isFieldExcludedFromPersist,
+  createDraftWriter,
+  flushDrafts,
+} from "./utils/persistence";
+export type {
+  DraftWriter,
+  WebStorageAdapterOptions,
+  IndexedDbAdapterOptions,
+  DraftReadResult,
+  DraftEnvelopeOptions,
+} from "./utils/persistence";
 
 // ============================================================================
 // Утилиты для работы с вложенными полями
@@ -71,6 +186,41 @@ export {
   getRootKey, 
   getNestedPath,
   isReservedFieldConfigKey,
+  isArrayIndex,
   getFieldConfigByPath,
 } from "./utils/pathUtils";
 export { getFieldByPath, setFieldByPath, removeFieldByPath } from "./utils/helpers";
+export {
+  applyFieldArrayOperation,
+  createFieldArrayItem,
+  remapFieldArrayKeys,
+} from "./utils/fieldArray";
+
+// ============================================================================
+// Валидация уровня формы
+// ============================================================================
+
+export { FORM_ERROR_KEY } from "./core/validation/formValidation";
+
+// ============================================================================
+// Валидация вне формы (сервер) — также доступна из "palistor/server" без React
+// ============================================================================
+
+export { validateValues } from "./core/validation/validateValues";
+export type { ValidateValuesOptions } from "./core/validation/validateValues";
+
+// ============================================================================
+// Адаптеры схем валидации
+// ============================================================================
+
+export {
+  zodAdapter,
+  valibotAdapter,
+  yupAdapter,
+  standardSchemaAdapter,
+} from "./core/validation/schemaAdapters";
+export type {
+  ZodLikeSchema,
+  StandardSchemaLike,
+  YupLikeSchema,
+} from "./core/validation/schemaAdapters";
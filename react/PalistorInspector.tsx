@@ -0,0 +1,305 @@
+/**
+ * PalistorInspector - инспектор форм из registry (для отладки)
+ *
+ * Показывает все экземпляры (getRegistryKeys) и для выбранного:
+ * values, вычисленные fields, ошибки, dirty / touched / visited,
+ * граф dependencies. Значения полей и showErrors можно менять на лету.
+ *
+ * Не зависит от UI-библиотек и CSS-фреймворков — только inline-стили.
+ *
+ * @example
+ * ```tsx
+ * // Все формы, по умолчанию выбрана Order:NewOrder
+ * <PalistorInspector type="Order" id="NewOrder" />
+ * ```
+ */
+
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+  type ReactNode,
+} from "react";
+
+import type { FormController } from "../core/createFormController";
+import {
+  getFormDefinition,
+  getRegistryEntry,
+  getRegistryKey,
+  getRegistryKeys,
+  subscribeRegistry,
+} from "../core/registry";
+import { getDependencyGraph } from "../core/compute/dependencyGraph";
+import { getVisibleFieldKeys } from "../core/actions/getVisibleFieldKeys";
+
+export interface PalistorInspectorProps {
+  /** Тип формы, выбранной по умолчанию */
+  type?: string;
+  /** ID экземпляра, выбранного по умолчанию */
+  id?: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// ============================================================================
+// Стили
+// ============================================================================
+
+const styles = {
+  root: {
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+    fontSize: 12,
+    lineHeight: 1.5,
+    color: "#18181b",
+    background: "#fafafa",
+    border: "1px solid #e4e4e7",
+    borderRadius: 8,
+    padding: 12,
+  },
+  header: { display: "flex", alignItems: "center", gap: 8, marginBottom: 8 },
+  title: { fontWeight: 600, flex: 1 },
+  section: { marginTop: 8 },
+  summary: { cursor: "pointer", fontWeight: 600 },
+  pre: {
+    margin: "4px 0 0",
+    padding: 8,
+    maxHeight: 320,
+    overflow: "auto",
+    background: "#f4f4f5",
+    borderRadius: 4,
+  },
+  table: { width: "100%", borderCollapse: "collapse", marginTop: 4 },
+  cell: { padding: "2px 4px", borderBottom: "1px solid #e4e4e7", verticalAlign: "top" },
+  input: { width: "100%", font: "inherit", boxSizing: "border-box" },
+} satisfies Record<string, CSSProperties>;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Ключи registry с подпиской на появление / удаление экземпляров
+ * Экземпляры создаются во время рендера useForm, поэтому обновление
+ * откладывается в microtask — нельзя обновлять другой компонент посреди рендера
+ */
+function useRegistryKeys(): string[] {
+  const [keys, setKeys] = useState(getRegistryKeys);
+
+  useEffect(() => {
+    let active = true;
+    const update = () => {
+      if (active) setKeys(getRegistryKeys());
+    };
+
+    update();
+    const unsubscribe = subscribeRegistry(() => queueMicrotask(update));
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return keys;
+}
+
+// ============================================================================
+// Компоненты
+// ============================================================================
+
+export function PalistorInspector({ type, id, className, style }: PalistorInspectorProps) {
+  const keys = useRegistryKeys();
+  const preferredKey = type && id ? getRegistryKey(type, id) : undefined;
+  const [selectedKey, setSelectedKey] = useState(preferredKey);
+
+  useEffect(() => {
+    if (preferredKey) setSelectedKey(preferredKey);
+  }, [preferredKey]);
+
+  const activeKey = selectedKey && keys.includes(selectedKey) ? selectedKey : keys[0];
+  const entry = activeKey ? getRegistryEntry(activeKey) : undefined;
+
+  return (
+    <div className={className} style={{ ...styles.root, ...style }}>
+      <div style={styles.header}>
+        <span style={styles.title}>Palistor inspector</span>
+        <select
+          aria-label="Form instance"
+          value={activeKey ?? ""}
+          disabled={keys.length === 0}
+          onChange={(e) => setSelectedKey(e.target.value)}
+        >
+          {keys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {entry ? (
+        <EntryInspector key={activeKey} controller={entry.controller} />
+      ) : (
+        <div>No forms in registry</div>
+      )}
+    </div>
+  );
+}
+
+function EntryInspector({ controller }: { controller: FormController<any> }) {
+  const state = useSyncExternalStore(controller.subscribe, controller.getState, controller.getState);
+  const config = getFormDefinition(controller.type)?.config;
+
+  const fieldKeys = useMemo(() => Object.keys(state.fields), [state.fields]);
+  const graph = useMemo(
+    () => (config ? getDependencyGraph(config, fieldKeys) : undefined),
+    [config, fieldKeys]
+  );
+
+  // Редактируются только листовые поля — родитель меняется через них
+  const leafKeys = fieldKeys.filter(
+    (key) => !fieldKeys.some((other) => other.startsWith(`${key}.`))
+  );
+
+  return (
+    <>
+      <Section title="Meta">
+        <div>
+          status: {state.status} · dirty: {String(state.dirty)} · submitCount:{" "}
+          {state.submitCount} · locale: {state.locale}
+        </div>
+        <label>
+          <input
+            type="checkbox"
+            checked={state.showErrors}
+            onChange={(e) =>
+              controller.dispatch({ type: "setShowErrors", showErrors: e.target.checked })
+            }
+          />{" "}
+          showErrors
+        </label>
+        <div>visible: {getVisibleFieldKeys(state).join(", ")}</div>
+      </Section>
+
+      <Section title="Values">
+        <table style={styles.table}>
+          <tbody>
+            {leafKeys.map((key) => (
+              <tr key={key}>
+                <td style={styles.cell}>{key}</td>
+                <td style={styles.cell}>
+                  <ValueEditor
+                    value={state.fields[key]?.value}
+                    onCommit={(value) =>
+                      (controller.setValue as (key: string, value: unknown) => void)(key, value)
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Errors">
+        <Json
+          value={{
+            errors: state.errors,
+            formErrors: state.formErrors,
+            asyncErrors: state.asyncErrors,
+            externalErrors: state.externalErrors,
+          }}
+        />
+      </Section>
+
+      <Section title="Dirty / touched / visited">
+        <Json
+          value={{
+            dirtyFields: state.dirtyFields,
+            touchedFields: state.touchedFields,
+            visitedFields: state.visitedFields,
+          }}
+        />
+      </Section>
+
+      {graph && (
+        <Section title="Dependencies">
+          {graph.edges.map(({ from, to }) => (
+            <div key={`${from}->${to}`}>
+              {from} → {to}
+            </div>
+          ))}
+          <div>any field → {graph.dependsOnAny.join(", ") || "—"}</div>
+          <div>only self → {graph.isolated.join(", ") || "—"}</div>
+        </Section>
+      )}
+
+      <Section title="Fields (computed)" defaultOpen={false}>
+        <Json value={state.fields} />
+      </Section>
+    </>
+  );
+}
+
+function Section({
+  title,
+  defaultOpen = true,
+  children,
+}: {
+  title: string;
+  defaultOpen?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <details open={defaultOpen} style={styles.section}>
+      <summary style={styles.summary}>{title}</summary>
+      {children}
+    </details>
+  );
+}
+
+function Json({ value }: { value: unknown }) {
+  return <pre style={styles.pre}>{JSON.stringify(value, null, 2)}</pre>;
+}
+
+/**
+ * Редактор значения поля: строки — как есть, остальное — JSON
+ * Применяется по blur или Enter
+ */
+function ValueEditor({ value, onCommit }: { value: unknown; onCommit: (value: unknown) => void }) {
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+  const [draft, setDraft] = useState(text);
+
+  useEffect(() => {
+    setDraft(text);
+  }, [text]);
+
+  const commit = () => {
+    if (draft === text) return;
+    if (typeof value === "string") {
+      onCommit(draft);
+      return;
+    }
+    try {
+      onCommit(JSON.parse(draft));
+    } catch {
+      onCommit(draft);
+    }
+  };
+
+  return (
+    <input
+      style={styles.input}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * useField - хук для подписки на одно поле формы
+ *
+ * В отличие от useForm (подписка на весь state) ре-рендерит компонент,
+ * только когда меняется объект ComputedFieldState поля или его показ ошибки.
+ * Неизменённые поля сохраняют ссылку (recomputeFieldStates), поэтому ввод
+ * в одно поле не ре-рендерит остальные.
+ */
+
+"use client";
+
+import { useCallback, useMemo } from "react";
+import type { ComputedFieldState, FieldProps, FormState } from "../core/types";
+import type { FormController } from "../core/createFormController";
+import { isErrorVisible } from "../core/validation/validationMode";
+import { useSelector, shallowEqual } from "./useSelector";
+
+/**
+ * Часть состояния, от которой зависят пропсы поля
+ */
+export interface FieldSnapshot {
+  field: ComputedFieldState<any> | undefined;
+  showError: boolean;
+  submitting: boolean;
+}
+
+/**
+ * Выбирает из состояния всё, что нужно для пропсов поля
+ * Сравнивается через shallowEqual — поле сравнивается по ссылке
+ */
+export function selectFieldSnapshot<TValues extends Record<string, any>>(
+  state: FormState<TValues>,
+  key: string
+): FieldSnapshot {
+  return {
+    field: state.fields[key],
+    showError: isErrorVisible(state, key),
+    submitting: state.submitting,
+  };
+}
+
+/**
+ * Хук для подписки на одно поле controller'а
+ *
+ * @param controller - экземпляр формы
+ * @param key - путь к полю ("passport.number")
+ * @returns пропсы поля (как getFieldProps)
+ *
+ * @example
+ * ```tsx
+ * const props = useField(controller, "cardNumber");
+ * return <Input {...props} />;
+ * ```
+ */
+export function useField<TValue = any>(
+  controller: FormController<any>,
+  key: string
+): FieldProps<TValue> {
+  const selector = useCallback(
+    (state: FormState<any>) => selectFieldSnapshot(state, key),
+    [key]
+  );
+
+  const snapshot = useSelector(controller.store, selector, shallowEqual);
+
+  // Пропсы (и колбэки) пересоздаются только при смене снимка поля
+  return useMemo(
+    () => (controller.getFieldProps as (key: string) => FieldProps<TValue>)(key),
+    [controller, key, snapshot]
+  );
+}
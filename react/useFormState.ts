@@ -0,0 +1,38 @@
+/**
+ * useFormState - хук для выборочной подписки на состояние формы
+ *
+ * Тонкая обёртка над useSelector для controller'а: компонент
+ * ре-рендерится, только когда меняется выбранная часть FormState.
+ */
+
+"use client";
+
+import type { FormState } from "../core/types";
+import type { FormController } from "../core/createFormController";
+import { useSelector } from "./useSelector";
+
+/**
+ * Хук для подписки на часть состояния формы
+ *
+ * @param controller - экземпляр формы
+ * @param selector - функция выбора нужной части состояния
+ * @param equalityFn - функция сравнения (по умолчанию Object.is)
+ * @returns выбранная часть состояния
+ *
+ * @example
+ * ```tsx
+ * const dirty = useFormState(controller, (state) => state.dirty);
+ * const { status, submitCount } = useFormState(
+ *   controller,
+ *   (state) => ({ status: state.status, submitCount: state.submitCount }),
+ *   shallowEqual
+ * );
+ * ```
+ */
+export function useFormState<TValues extends Record<string, any>, U>(
+  controller: FormController<TValues>,
+  selector: (state: FormState<TValues>) => U,
+  equalityFn?: (a: U, b: U) => boolean
+): U {
+  return useSelector(controller.store, selector, equalityFn);
+}
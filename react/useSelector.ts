@@ -34,13 +34,18 @@ export function useSelector<T, U>(
   // Кэшируем последнее вычисленное значение
   const lastValueRef = useRef<U | undefined>(undefined);
   const lastStateRef = useRef<T | undefined>(undefined);
+  const lastSelectorRef = useRef(selector);
 
   // Мемоизированный getSnapshot с проверкой равенства
   const getSnapshot = useCallback(() => {
     const state = store.getState();
     
-    // Если состояние не изменилось, возвращаем кэшированное значение
-    if (lastStateRef.current === state && lastValueRef.current !== undefined) {
+    // Если состояние и selector не изменились, возвращаем кэшированное значение
+    if (
+      lastStateRef.current === state &&
+      lastSelectorRef.current === selector &&
+      lastValueRef.current !== undefined
+    ) {
       return lastValueRef.current;
     }
 
@@ -49,11 +54,13 @@ export function useSelector<T, U>(
     // Если вычисленное значение не изменилось, возвращаем кэшированное
     if (lastValueRef.current !== undefined && equalityFn(lastValueRef.current, nextValue)) {
       lastStateRef.current = state;
+      lastSelectorRef.current = selector;
       return lastValueRef.current;
     }
 
     // Обновляем кэш
     lastStateRef.current = state;
+    lastSelectorRef.current = selector;
     lastValueRef.current = nextValue;
 
     return nextValue;
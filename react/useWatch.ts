@@ -0,0 +1,49 @@
+/**
+ * useWatch - хук для подписки на значения по путям
+ *
+ * Ре-рендерит компонент, только когда значения изменились
+ * (глубокое сравнение — для вложенных объектов и массивов).
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import type { FormState } from "../core/types";
+import type { FormController } from "../core/createFormController";
+import { selectWatchedValues } from "../core/watch";
+import { isDeepEqual } from "../utils/helpers";
+import { useSelector } from "./useSelector";
+
+/**
+ * Хук для подписки на значения controller'а
+ *
+ * @param controller - экземпляр формы
+ * @param paths - путь или список путей
+ * @returns значение (для списка путей — массив значений)
+ *
+ * @example
+ * ```tsx
+ * const country = useWatch(controller, "country");
+ * const [issueDate, expiryDate] = useWatch(controller, [
+ *   "passport.issueDate",
+ *   "passport.expiryDate",
+ * ]);
+ * ```
+ */
+export function useWatch(
+  controller: FormController<any>,
+  paths: string | ReadonlyArray<string>
+): any {
+  const isSingle = typeof paths === "string";
+  // Стабильный ключ — массив путей обычно пересоздаётся на каждый рендер
+  const pathsKey = isSingle ? paths : paths.join("\n");
+
+  const selector = useCallback(
+    (state: FormState<any>) => selectWatchedValues(state.values, pathsKey.split("\n")),
+    [pathsKey]
+  );
+
+  const values = useSelector(controller.store, selector, isDeepEqual);
+
+  return isSingle ? values[0] : values;
+}
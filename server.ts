@@ -0,0 +1,41 @@
+/**
+ * Palistor — серверная точка входа
+ *
+ * Без "use client" и без React: можно импортировать в route handlers,
+ * server actions и Node-скриптах. Валидирует payload теми же правилами,
+ * что и форма на клиенте.
+ *
+ * @example
+ * ```ts
+ * // app/actions/saveOrder.ts
+ * "use server";
+ * import { validateValues } from "palistor/server";
+ *
+ * export async function saveOrder(values: OrderValues) {
+ *   const errors = validateValues(orderConfig, values, { validate: validateOrder });
+ *   if (Object.keys(errors).length > 0) return { errors };
+ *   // ...
+ * }
+ * ```
+ */
+
+export { validateValues } from "./core/validation/validateValues";
+export type { ValidateValuesOptions } from "./core/validation/validateValues";
+
+export { FORM_ERROR_KEY } from "./core/validation/formValidation";
+
+export {
+  zodAdapter,
+  valibotAdapter,
+  yupAdapter,
+  standardSchemaAdapter,
+} from "./core/validation/schemaAdapters";
+
+export type {
+  FieldConfig,
+  FormConfig,
+  TranslateFn,
+  ValidationError,
+  SchemaAdapter,
+  FormValidator,
+} from "./core/types";
@@ -0,0 +1,162 @@
+/**
+ * Утилиты для полей-массивов (array: true)
+ */
+
+import type { FieldArrayOperation, FieldConfig } from "../core/types";
+import { isArrayIndex, isReservedFieldConfigKey } from "./pathUtils";
+
+/**
+ * Применяет операцию к массиву (иммутабельно)
+ *
+ * Некорректные индексы игнорируются — возвращается тот же массив.
+ *
+ * @example
+ * applyFieldArrayOperation([a, b, c], { type: "move", from: 0, to: 2 }) // → [b, c, a]
+ * applyFieldArrayOperation([a, b], { type: "remove", index: 5 }) // → [a, b] (та же ссылка)
+ */
+export function applyFieldArrayOperation<TItem>(
+  items: readonly TItem[],
+  operation: FieldArrayOperation<TItem>
+): readonly TItem[] {
+  const isValidIndex = (index: number) =>
+    Number.isInteger(index) && index >= 0 && index < items.length;
+
+  switch (operation.type) {
+    case "append":
+      return [...items, operation.value];
+
+    case "insert": {
+      const { index, value } = operation;
+      if (!Number.isInteger(index) || index < 0 || index > items.length) return items;
+
+      return [...items.slice(0, index), value, ...items.slice(index)];
+    }
+
+    case "remove": {
+      if (!isValidIndex(operation.index)) return items;
+
+      return items.filter((_, index) => index !== operation.index);
+    }
+
+    case "move": {
+      const { from, to } = operation;
+      if (!isValidIndex(from) || !isValidIndex(to) || from === to) return items;
+
+      const next = [...items];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    }
+
+    case "swap": {
+      const { indexA, indexB } = operation;
+      if (!isValidIndex(indexA) || !isValidIndex(indexB) || indexA === indexB) return items;
+
+      const next = [...items];
+      next[indexA] = items[indexB];
+      next[indexB] = items[indexA];
+      return next;
+    }
+
+    default:
+      return items;
+  }
+}
+
+/**
+ * Переносит записи с индексными ключами вслед за элементами массива
+ * (touchedFields, visibleErrors и т.п. после remove/move/swap/insert)
+ *
+ * Записи удалённых элементов выпадают, остальные ключи не меняются.
+ *
+ * @param map - записи по путям полей
+ * @param arrayKey - путь к массиву ("items")
+ * @param length - длина массива ДО операции
+ * @param operation - операция над массивом
+ * @returns новый объект (или тот же, если записей элементов нет)
+ *
+ * @example
+ * remapFieldArrayKeys({ "items.1.name": true }, "items", 2, { type: "remove", index: 0 })
+ * // → { "items.0.name": true }
+ */
+export function remapFieldArrayKeys<T>(
+  map: Record<string, T>,
+  arrayKey: string,
+  length: number,
+  operation: FieldArrayOperation
+): Record<string, T> {
+  const prefix = `${arrayKey}.`;
+  if (!Object.keys(map).some((key) => key.startsWith(prefix))) {
+    return map;
+  }
+
+  // Старые индексы в новом порядке (вставленный элемент → -1)
+  const indexOperation: FieldArrayOperation<number> =
+    operation.type === "append" || operation.type === "insert"
+      ? { ...operation, value: -1 }
+      : operation;
+  const order = applyFieldArrayOperation(
+    Array.from({ length }, (_, index) => index),
+    indexOperation
+  );
+
+  const result: Record<string, T> = {};
+
+  for (const [key, value] of Object.entries(map)) {
+    const [indexSegment, ...rest] = key.slice(prefix.length).split(".");
+
+    if (!key.startsWith(prefix) || !isArrayIndex(indexSegment)) {
+      result[key] = value;
+      continue;
+    }
+
+    const newIndex = order.indexOf(Number(indexSegment));
+    if (newIndex === -1) continue;
+
+    result[[arrayKey, newIndex, ...rest].join(".")] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Создаёт значение нового элемента по шаблону item
+ *
+ * - nested шаблон → объект из value дочерних полей
+ * - простой шаблон → его value
+ * - computed value (функция) не вычисляется → undefined
+ *
+ * @example
+ * createFieldArrayItem({
+ *   array: true,
+ *   item: { nested: true, price: { value: 0 }, quantity: { value: 1 } },
+ * }) // → { price: 0, quantity: 1 }
+ */
+export function createFieldArrayItem(arrayConfig: FieldConfig<any, any> | undefined): any {
+  return createValueFromConfig(arrayConfig?.item);
+}
+
+function createValueFromConfig(fieldConfig: FieldConfig<any, any> | undefined): any {
+  if (!fieldConfig) return undefined;
+
+  if (fieldConfig.array) {
+    return Array.isArray(fieldConfig.value) ? [...fieldConfig.value] : [];
+  }
+
+  if (fieldConfig.nested) {
+    const result: Record<string, any> = {};
+
+    for (const key of Object.keys(fieldConfig)) {
+      if (isReservedFieldConfigKey(key)) continue;
+
+      const child = fieldConfig[key];
+      if (!child || typeof child !== "object") continue;
+
+      result[key] = createValueFromConfig(child);
+    }
+
+    return result;
+  }
+
+  return typeof fieldConfig.value === "function" ? undefined : fieldConfig.value;
+}
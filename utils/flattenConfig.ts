@@ -35,14 +35,22 @@ const RESERVED_FIELD_CONFIG_KEYS = new Set([
   "placeholder",
   "description",
   "validate",
+  "validateAsync",
+  "asyncDebounce",
   "formatter",
   "setter",
   "isRequired",
+  "requiredError",
+  "validationMode",
   "isReadOnly",
   "isDisabled",
   "isVisible",
   "dependencies",
   "nested",
+  "array",
+  "item",
+  "persist",
+  "sensitive",
   "componentProps",
   "types",
 ]);
@@ -22,6 +22,70 @@ export const isEmpty = (value: any): boolean => {
   return false;
 };
 
+/**
+ * Checks if a field value is empty for required validation, taking dataType into account.
+ * - String: empty or whitespace-only string
+ * - Number: null, undefined, NaN or empty string (0 is not empty)
+ * - Boolean: anything except true (required checkbox must be checked)
+ * - Date: null, undefined or invalid date
+ * - Array: empty array
+ * - Object: null, undefined or object without keys
+ * - without dataType: null, undefined, empty/whitespace string or empty array
+ * @param value - The value to check.
+ * @param dataType - FieldConfig.types.dataType.
+ * @returns True if the value is empty, false otherwise.
+ */
+export const isEmptyValue = (
+  value: any,
+  dataType?: "String" | "Number" | "Boolean" | "Date" | "Array" | "Object"
+): boolean => {
+  switch (dataType) {
+    case "Boolean":
+      return value !== true;
+    case "Number":
+      return value == null || value === "" || Number.isNaN(Number(value));
+    case "Date":
+      return value == null || value === "" || (value instanceof Date && Number.isNaN(value.getTime()));
+    case "Array":
+      return !Array.isArray(value) || value.length === 0;
+    case "Object":
+      return isEmpty(value);
+    default:
+      if (value == null) return true;
+      if (typeof value === "string") return value.trim().length === 0;
+      if (Array.isArray(value)) return value.length === 0;
+      return false;
+  }
+};
+
+/**
+ * Deeply compares two values (primitives, arrays, dates and plain objects).
+ * A missing key and a key with undefined value are treated as equal (as in JSON).
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns True if the values are deeply equal, false otherwise.
+ */
+export const isDeepEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (!isDeepEqual(a[key], b[key])) return false;
+  }
+
+  return true;
+};
+
 /**
  * Computes the intersection of arrays using a key to compare elements.
  * @param arrays - The arrays to intersect.
@@ -65,6 +129,7 @@ export const getFieldByPath = <T extends Record<string, any>>(
  * Устанавливает значение поля по указанному пути в объекте (иммутабельно).
  * Возвращает новый объект с обновлённым значением, не изменяя оригинальный объект.
  * Применяет структурный шаринг: объекты вне пути остаются теми же самыми ссылками.
+ * Массивы на пути копируются как массивы ("items.0.price").
  * @param obj - Исходный объект.
  * @param path - Массив ключей, определяющих путь к полю.
  * @param value - Значение, которое нужно установить.
@@ -75,24 +140,25 @@ export const setFieldByPath = <T extends Record<string, any>>(obj: T, path: stri
 
   const [firstKey, ...restPath] = path;
 
-  if (restPath.length === 0) {
-    // Базовый случай: обновляем поле на текущем уровне
-    return { ...obj, [firstKey]: value };
-  }
-
   // Рекурсивный случай: спускаемся глубже
-  const nested = obj[firstKey] || {};
+  const nextValue = restPath.length === 0
+    ? value
+    : setFieldByPath(obj[firstKey] || {}, restPath, value);
+
+  if (Array.isArray(obj)) {
+    const copy = [...obj];
+    copy[Number(firstKey)] = nextValue;
+    return copy as unknown as T;
+  }
 
-  return {
-    ...obj,
-    [firstKey]: setFieldByPath(nested, restPath, value)
-  };
+  return { ...obj, [firstKey]: nextValue };
 };
 
 /**
  * Удаляет поле по указанному пути из объекта (иммутабельно).
  * Возвращает новый объект без указанного поля, не изменяя оригинальный объект.
  * Применяет структурный шаринг: объекты вне пути остаются теми же самыми ссылками.
+ * Элемент массива удаляется со сдвигом индексов.
  * @param obj - Исходный объект.
  * @param path - Массив ключей, определяющих путь к полю для удаления.
  * @returns Новый объект без указанного поля.
@@ -107,6 +173,18 @@ export const removeFieldByPath = <T extends Record<string, any>>(obj: T, path: s
     return obj; // Поле не существует, возвращаем оригинальный объект
   }
 
+  if (Array.isArray(obj)) {
+    const copy = [...obj];
+
+    if (restPath.length === 0) {
+      copy.splice(Number(firstKey), 1);
+    } else {
+      copy[Number(firstKey)] = removeFieldByPath(obj[Number(firstKey)], restPath);
+    }
+
+    return copy as unknown as T;
+  }
+
   if (restPath.length === 0) {
     const { [firstKey]: _, ...rest } = obj;
 
@@ -17,14 +17,22 @@ const RESERVED_FIELD_CONFIG_KEYS = new Set([
   "placeholder",
   "description",
   "validate",
+  "validateAsync",
+  "asyncDebounce",
   "formatter",
   "setter",
   "isRequired",
+  "requiredError",
+  "validationMode",
   "isReadOnly",
   "isDisabled",
   "isVisible",
   "dependencies",
   "nested",
+  "array",
+  "item",
+  "persist",
+  "sensitive",
   "componentProps",
   "types",
 ]);
@@ -44,8 +52,11 @@ export function isReservedFieldConfigKey(key: string): boolean {
 /**
  * Получает конфиг поля по вложенному пути в оригинальном (не плоском) конфиге
  * 
+ * Для полей-массивов (array: true) индексный сегмент пути
+ * разрешается в шаблон элемента: "items.0.price" → items.item.price
+ * 
  * @param config - Оригинальный вложенный конфиг формы
- * @param key - Путь к полю (может быть "passport.number")
+ * @param key - Путь к полю (может быть "passport.number" или "items.0.price")
  * @returns Конфиг поля или undefined
  * 
  * @example
@@ -72,6 +83,13 @@ export function getFieldConfigByPath<TValues extends Record<string, any>>(
 
   for (const part of parts) {
     if (!current || typeof current !== "object") return undefined;
+
+    // Внутри массива допустимы только индексы → шаблон элемента
+    if (current.array) {
+      current = isArrayIndex(part) ? current.item : undefined;
+      continue;
+    }
+
     current = current[part];
   }
 
@@ -129,6 +147,30 @@ export function isNestedKey(key: string): boolean {
   return typeof key === "string" && key.includes(".");
 }
 
+/**
+ * Проверяет, является ли сегмент пути индексом массива
+ * 
+ * @example
+ * isArrayIndex("0") // → true
+ * isArrayIndex("12") // → true
+ * isArrayIndex("price") // → false
+ */
+export function isArrayIndex(segment: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(segment);
+}
+
+/**
+ * Проверяет, связаны ли пути: совпадают или один вложен в другой
+ * 
+ * @example
+ * isRelatedPath("passport", "passport.number") // → true
+ * isRelatedPath("items.0", "items") // → true
+ * isRelatedPath("items", "itemsCount") // → false
+ */
+export function isRelatedPath(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
 /**
  * Получает корневой ключ из пути
  * 
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createDraftEnvelope, readDraftEnvelope } from "./draftEnvelope";
+import type { DraftMigrations } from "../../core/types";
+
+const migrations: DraftMigrations = {
+  // v1: cardNumber → card.number
+  1: ({ cardNumber, ...values }) => ({ ...values, card: { number: cardNumber } }),
+  // v2: passportNumber → passport.number
+  2: ({ passportNumber, ...values }) => ({ ...values, passport: { number: passportNumber } }),
+};
+
+describe("readDraftEnvelope", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should migrate legacy raw values step by step", () => {
+    const result = readDraftEnvelope({ cardNumber: "4242", passportNumber: "AB1" }, 2, migrations);
+
+    expect(result).toEqual({
+      status: "ok",
+      values: { card: { number: "4242" }, passport: { number: "AB1" } },
+    });
+  });
+
+  it("should drop drafts that cannot be migrated", () => {
+    const current = createDraftEnvelope({ card: { number: "4242" } }, 2);
+    expect(readDraftEnvelope(current, 2, migrations)).toMatchObject({ status: "ok" });
+
+    expect(readDraftEnvelope({ ...current, version: 3 }, 2, migrations).status).toBe("dropped");
+    expect(readDraftEnvelope(createDraftEnvelope({}, 0), 3, migrations).status).toBe("dropped");
+    expect(
+      readDraftEnvelope(createDraftEnvelope({}, 1), 2, {
+        2: () => {
+          throw new Error("unsupported");
+        },
+      }).status
+    ).toBe("dropped");
+  });
+
+  it("should keep createdAt on rewrite and expire after ttl", () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const first = createDraftEnvelope({ title: "Draft" }, 0, { ttl: 500 });
+
+    vi.setSystemTime(1_200);
+    const rewritten = createDraftEnvelope({ title: "Draft 2" }, 0, {
+      createdAt: first.createdAt,
+      ttl: 500,
+    });
+    expect(rewritten).toMatchObject({ createdAt: 1_000, updatedAt: 1_200, expiresAt: 1_700 });
+    expect(readDraftEnvelope(rewritten, 0)).toMatchObject({ status: "ok", createdAt: 1_000 });
+
+    vi.setSystemTime(1_700);
+    expect(readDraftEnvelope(rewritten, 0)).toEqual({ status: "expired" });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Версионирование черновиков
+ *
+ * В хранилище лежит PersistedDraft { version, createdAt, updatedAt, expiresAt, values }.
+ * Черновик старой версии поднимается миграциями по шагам
+ * (version + 1, version + 2, ... до текущей), черновик без нужной
+ * миграции или более новой версии отбрасывается.
+ *
+ * Черновики до версионирования (голые values) считаются версией 0.
+ * Просроченный черновик (expiresAt в прошлом) не мигрируется — он удаляется.
+ *
+ * С шифрованием (DraftEncryption) в хранилище лежит шифротекст JSON конверта.
+ */
+
+import type { DraftEncryption, DraftMigrations, PersistedDraft } from "../../core/types";
+
+/** Результат чтения черновика */
+export type DraftReadResult<TValues> =
+  | { status: "empty" }
+  | {
+      status: "ok";
+      values: Partial<TValues>;
+      createdAt?: number;
+      updatedAt?: number;
+      expiresAt?: number;
+    }
+  | { status: "expired" }
+  | { status: "dropped"; reason: string };
+
+export interface DraftEnvelopeOptions {
+  /** Время создания перезаписываемого черновика (по умолчанию — сейчас) */
+  createdAt?: number;
+  /** Время жизни после сохранения (мс) */
+  ttl?: number;
+}
+
+/**
+ * Упаковывает values в PersistedDraft
+ *
+ * @example
+ * createDraftEnvelope(values, 2, { createdAt: draft.createdAt, ttl: 7 * DAY });
+ */
+export function createDraftEnvelope<TValues>(
+  values: TValues,
+  version: number,
+  { createdAt, ttl }: DraftEnvelopeOptions = {}
+): PersistedDraft<TValues> {
+  const updatedAt = Date.now();
+  return {
+    version,
+    createdAt: createdAt ?? updatedAt,
+    updatedAt,
+    ...(ttl !== undefined && { expiresAt: updatedAt + ttl }),
+    values,
+  };
+}
+
+/**
+ * Значение для записи в хранилище: конверт или его шифротекст
+ */
+export async function encodeDraft(
+  envelope: PersistedDraft,
+  encryption?: DraftEncryption
+): Promise<unknown> {
+  return encryption ? encryption.encrypt(JSON.stringify(envelope)) : envelope;
+}
+
+/**
+ * Значение из хранилища → конверт (расшифровка, если включено шифрование)
+ * Нешифрованный черновик (сохранён до включения шифрования) возвращается как есть
+ * и при следующей записи заменяется шифротекстом
+ */
+export async function decodeDraft(raw: unknown, encryption?: DraftEncryption): Promise<unknown> {
+  if (!encryption || typeof raw !== "string") return raw;
+  return JSON.parse(await encryption.decrypt(raw));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Конверт до метаданных хранил только savedAt */
+type StoredEnvelope = Partial<PersistedDraft> & { version: number; savedAt?: number };
+
+function isDraftEnvelope(value: unknown): value is StoredEnvelope {
+  return (
+    isPlainObject(value) &&
+    typeof value.version === "number" &&
+    typeof (value.updatedAt ?? value.savedAt) === "number" &&
+    isPlainObject(value.values)
+  );
+}
+
+/**
+ * Читает черновик и мигрирует его до текущей версии
+ *
+ * @param raw - значение из хранилища
+ * @param version - текущая версия схемы values
+ * @param migrations - шаги миграции
+ *
+ * @example
+ * readDraftEnvelope({ version: 1, createdAt, updatedAt, values }, 2, { 2: (v) => ({ ...v, card: {} }) });
+ * // { status: "ok", values: { ..., card: {} }, createdAt, updatedAt }
+ */
+export function readDraftEnvelope<TValues>(
+  raw: unknown,
+  version: number,
+  migrations: DraftMigrations = {}
+): DraftReadResult<TValues> {
+  if (raw === undefined || raw === null) {
+    return { status: "empty" };
+  }
+
+  const envelope = isDraftEnvelope(raw) ? raw : undefined;
+  if (!envelope && !isPlainObject(raw)) {
+    return { status: "dropped", reason: "invalid draft format" };
+  }
+
+  if (envelope?.expiresAt !== undefined && envelope.expiresAt <= Date.now()) {
+    return { status: "expired" };
+  }
+
+  let values: Record<string, any> | undefined = envelope
+    ? envelope.values
+    : (raw as Record<string, any>);
+  const draftVersion = envelope?.version ?? 0;
+
+  if (draftVersion > version) {
+    return { status: "dropped", reason: `draft version ${draftVersion} is newer than ${version}` };
+  }
+
+  for (let step = draftVersion + 1; step <= version; step++) {
+    const migrate = migrations[step];
+    if (!migrate) {
+      return { status: "dropped", reason: `no migration to version ${step}` };
+    }
+
+    try {
+      values = migrate(values);
+    } catch (error) {
+      return { status: "dropped", reason: `migration to version ${step} failed: ${String(error)}` };
+    }
+
+    if (!isPlainObject(values)) {
+      return { status: "dropped", reason: `migration to version ${step} returned no values` };
+    }
+  }
+
+  const updatedAt = envelope?.updatedAt ?? envelope?.savedAt;
+
+  return {
+    status: "ok",
+    values: values as Partial<TValues>,
+    createdAt: envelope?.createdAt ?? updatedAt,
+    updatedAt,
+    expiresAt: envelope?.expiresAt,
+  };
+}
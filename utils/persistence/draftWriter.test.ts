@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createForm } from "../../core/createForm";
+import { removeFormStore } from "../../core/registry";
+import type { FormConfig, PersistedDraft } from "../../core/types";
+import { flushDrafts } from "./draftWriter";
+import { memoryAdapter } from "./memoryAdapter";
+
+type NoteValues = { text: string };
+
+const config: FormConfig<NoteValues> = { text: { value: "" } };
+
+describe("draft writer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should bound writes for bursty typing", async () => {
+    const adapter = memoryAdapter();
+    const set = vi.spyOn(adapter, "set");
+    const { createController } = createForm<NoteValues>({
+      type: "BurstyNote",
+      config,
+      defaults: { text: "" },
+      persist: { adapter, write: { debounce: 300, maxWait: 1000 } },
+    });
+    const controller = createController("1");
+
+    // 100 нажатий по 20 мс — 2 секунды непрерывного ввода
+    for (let i = 1; i <= 100; i++) {
+      controller.setValue("text", "a".repeat(i));
+      vi.advanceTimersByTime(20);
+    }
+    expect(set.mock.calls.length).toBeLessThanOrEqual(2);
+
+    vi.advanceTimersByTime(300);
+    expect(set.mock.calls.length).toBeLessThanOrEqual(3);
+
+    const draft = await adapter.get<PersistedDraft<NoteValues>>("BurstyNote:1");
+    expect(draft?.values.text).toBe("a".repeat(100));
+
+    removeFormStore("BurstyNote", "1");
+  });
+
+  it("should write pending draft on flushDrafts", async () => {
+    const adapter = memoryAdapter();
+    const { createController } = createForm<NoteValues>({
+      type: "FlushedNote",
+      config,
+      defaults: { text: "" },
+      persist: { adapter, write: { debounce: 5000 } },
+    });
+    const controller = createController("1");
+
+    controller.setValue("text", "Before leaving");
+    expect(await adapter.get("FlushedNote:1")).toBeUndefined();
+
+    await flushDrafts();
+    const draft = await adapter.get<PersistedDraft<NoteValues>>("FlushedNote:1");
+    expect(draft?.values.text).toBe("Before leaving");
+
+    removeFormStore("FlushedNote", "1");
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Планировщик записи черновиков
+ *
+ * Быстрый ввод не должен сериализовать values на каждое нажатие:
+ * - debounce — запись через N мс после последнего изменения
+ * - maxWait — при непрерывном вводе запись не реже, чем раз в N мс
+ * - idle — запись в requestIdleCallback (если доступен)
+ *
+ * Отложенная запись гарантированно выполняется при pagehide,
+ * размонтировании формы, dispose и явном flushDrafts().
+ */
+
+import type { DraftWriteOptions } from "../../core/types";
+
+/** Таймаут requestIdleCallback без maxWait (мс) */
+export const DEFAULT_IDLE_TIMEOUT = 1000;
+
+export interface DraftWriter<T> {
+  /** Запланировать запись (заменяет ещё не записанное значение) */
+  schedule: (value: T) => void;
+  /** Записать отложенное значение сейчас */
+  flush: () => Promise<void>;
+  /** Отменить отложенную запись (черновик удаляется) */
+  cancel: () => void;
+  /** Записать отложенное значение и отключить writer */
+  dispose: () => Promise<void>;
+}
+
+/** Активные writer'ы по ключу черновика — для flushDrafts() */
+const writers = new Set<{ key: string; flush: () => Promise<void> }>();
+let isPageHideListenerAdded = false;
+
+/**
+ * Записывает все отложенные черновики (например, перед уходом со страницы)
+ *
+ * @param key - только черновик с этим ключом (persistId или "type:id")
+ * @returns Promise, который завершается после записи в хранилище
+ *
+ * @example
+ * await flushDrafts();
+ * router.push("/orders");
+ */
+export function flushDrafts(key?: string): Promise<void> {
+  const pending: Array<Promise<void>> = [];
+  writers.forEach((writer) => {
+    if (key === undefined || writer.key === key) pending.push(writer.flush());
+  });
+  return Promise.all(pending).then(() => undefined);
+}
+
+function addPageHideListener(): void {
+  if (isPageHideListenerAdded) return;
+  if (typeof window === "undefined" || typeof window.addEventListener !== "function") return;
+
+  isPageHideListenerAdded = true;
+  window.addEventListener("pagehide", () => {
+    void flushDrafts();
+  });
+}
+
+/**
+ * Создаёт планировщик записи
+ *
+ * @param key - ключ черновика
+ * @param write - запись значения (сериализация выполняется только здесь)
+ * @param options - debounce / maxWait / idle (без них запись сразу)
+ */
+export function createDraftWriter<T>(
+  key: string,
+  write: (value: T) => Promise<void>,
+  { debounce = 0, maxWait, idle = false }: DraftWriteOptions = {}
+): DraftWriter<T> {
+  const isDeferred = debounce > 0 || maxWait !== undefined || idle;
+
+  let pending: { value: T } | undefined;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let maxWaitTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleHandle: number | undefined;
+  let lastWrite: Promise<void> = Promise.resolve();
+
+  const clearScheduled = () => {
+    clearTimeout(debounceTimer);
+    clearTimeout(maxWaitTimer);
+    debounceTimer = undefined;
+    maxWaitTimer = undefined;
+    if (idleHandle !== undefined) {
+      window.cancelIdleCallback(idleHandle);
+      idleHandle = undefined;
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    clearScheduled();
+    if (!pending) return lastWrite;
+
+    const { value } = pending;
+    pending = undefined;
+    lastWrite = write(value);
+    return lastWrite;
+  };
+
+  /** Таймер сработал — пишем сразу или в ближайший idle */
+  const requestFlush = () => {
+    if (idle && typeof window !== "undefined" && typeof window.requestIdleCallback === "function") {
+      clearTimeout(debounceTimer);
+      clearTimeout(maxWaitTimer);
+      if (idleHandle === undefined) {
+        idleHandle = window.requestIdleCallback(() => {
+          idleHandle = undefined;
+          void flush();
+        }, { timeout: maxWait ?? DEFAULT_IDLE_TIMEOUT });
+      }
+      return;
+    }
+    void flush();
+  };
+
+  const entry = { key, flush };
+  if (isDeferred) {
+    writers.add(entry);
+    addPageHideListener();
+  }
+
+  return {
+    schedule: (value) => {
+      pending = { value };
+
+      if (!isDeferred) {
+        void flush();
+        return;
+      }
+
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(requestFlush, debounce);
+
+      if (maxWait !== undefined && maxWaitTimer === undefined) {
+        maxWaitTimer = setTimeout(requestFlush, maxWait);
+      }
+    },
+    flush,
+    cancel: () => {
+      clearScheduled();
+      pending = undefined;
+    },
+    dispose: () => {
+      writers.delete(entry);
+      return flush();
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Хранилища черновиков (PersistenceAdapter)
+ */
+
+export {
+  createWebStorageAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from "./webStorageAdapter";
+export type { WebStorageAdapterOptions } from "./webStorageAdapter";
+export { indexedDbAdapter } from "./indexedDbAdapter";
+export type { IndexedDbAdapterOptions } from "./indexedDbAdapter";
+export { memoryAdapter } from "./memoryAdapter";
+export {
+  createDraftEnvelope,
+  readDraftEnvelope,
+  encodeDraft,
+  decodeDraft,
+} from "./draftEnvelope";
+export { getPersistableValues, isFieldExcludedFromPersist } from "./persistableValues";
+export { createDraftWriter, flushDrafts, DEFAULT_IDLE_TIMEOUT } from "./draftWriter";
+export type { DraftWriter } from "./draftWriter";
+export type { DraftReadResult, DraftEnvelopeOptions } from "./draftEnvelope";
@@ -0,0 +1,81 @@
+/**
+ * Черновики в IndexedDB
+ *
+ * Асинхронное хранилище без JSON: значения сохраняются structured clone,
+ * поэтому в черновике могут быть File / Blob (вложения) и Date.
+ * Квота значительно больше, чем у localStorage.
+ */
+
+import type { PersistenceAdapter } from "../../core/types";
+
+export interface IndexedDbAdapterOptions {
+  /** Имя базы (по умолчанию "palistor") */
+  dbName?: string;
+  /** Имя object store (по умолчанию "drafts") */
+  storeName?: string;
+}
+
+/** Promise для IDBRequest */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Создаёт адаптер IndexedDB (база открывается при первом обращении)
+ *
+ * @param options - имена базы и object store
+ */
+export function indexedDbAdapter({
+  dbName = "palistor",
+  storeName = "drafts",
+}: IndexedDbAdapterOptions = {}): PersistenceAdapter {
+  let dbPromise: Promise<IDBDatabase> | undefined;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("[Palistor] IndexedDB is not available"));
+    }
+
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Следующее обращение попробует открыть базу снова
+      dbPromise = undefined;
+      throw error;
+    });
+
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDb();
+    return toPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: <T>(key: string) => run<T | undefined>("readonly", (store) => store.get(key)),
+    set: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    remove: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+    list: async () => {
+      const keys = await run("readonly", (store) => store.getAllKeys());
+      return keys.map(String);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Черновики в памяти — для тестов, SSR и приватного режима без квоты
+ */
+
+import type { PersistenceAdapter } from "../../core/types";
+
+/**
+ * Создаёт адаптер поверх Map (у каждого вызова — своё хранилище)
+ *
+ * @param initial - начальные записи
+ */
+export function memoryAdapter(initial?: Record<string, unknown>): PersistenceAdapter {
+  const records = new Map<string, unknown>(Object.entries(initial ?? {}));
+
+  return {
+    getSync: <T>(key: string) => records.get(key) as T | undefined,
+    get: async <T>(key: string) => records.get(key) as T | undefined,
+    set: async (key, value) => {
+      records.set(key, value);
+    },
+    remove: async (key) => {
+      records.delete(key);
+    },
+    list: async () => Array.from(records.keys()),
+  };
+}
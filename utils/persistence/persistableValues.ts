@@ -0,0 +1,84 @@
+/**
+ * Отбор values для черновика: поля с persist: false и sensitive: true исключаются
+ *
+ * Обход идёт по values вместе с конфигом, поэтому учитываются
+ * вложенные поля ("passport.number") и элементы массивов ("cards.0.cvv").
+ */
+
+import type { FieldConfig, FormConfig } from "../../core/types";
+import { isReservedFieldConfigKey } from "../pathUtils";
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Поле не сохраняется в черновик */
+export function isFieldExcludedFromPersist(fieldConfig: FieldConfig<any, any> | undefined): boolean {
+  return !!fieldConfig && (fieldConfig.persist === false || fieldConfig.sensitive === true);
+}
+
+/**
+ * Убирает исключённые поля из объекта по словарю дочерних конфигов
+ * (FormConfig или nested FieldConfig — служебные ключи пропускаются)
+ */
+function omitExcluded(value: Record<string, any>, configs: Record<string, any>): Record<string, any> {
+  let result = value;
+
+  const update = (key: string, next: unknown) => {
+    if (result === value) result = { ...value };
+    if (next === undefined) {
+      delete result[key];
+    } else {
+      result[key] = next;
+    }
+  };
+
+  for (const key of Object.keys(configs)) {
+    if (isReservedFieldConfigKey(key) || !(key in value)) continue;
+
+    const fieldConfig = configs[key] as FieldConfig<any, any> | undefined;
+    const fieldValue = value[key];
+
+    if (isFieldExcludedFromPersist(fieldConfig)) {
+      update(key, undefined);
+    } else if (fieldConfig?.nested && isPlainObject(fieldValue)) {
+      const next = omitExcluded(fieldValue, fieldConfig);
+      if (next !== fieldValue) update(key, next);
+    } else if (fieldConfig?.array && fieldConfig.item && Array.isArray(fieldValue)) {
+      const { item } = fieldConfig;
+
+      if (isFieldExcludedFromPersist(item)) {
+        update(key, undefined);
+      } else if (item.nested) {
+        const next = fieldValue.map((element) =>
+          isPlainObject(element) ? omitExcluded(element, item) : element
+        );
+        if (next.some((element, index) => element !== fieldValue[index])) update(key, next);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * values для записи в черновик
+ *
+ * @param values - текущие values
+ * @param config - конфигурация формы
+ * @returns values без полей с persist: false / sensitive: true
+ *   (тот же объект, если исключать нечего)
+ *
+ * @example
+ * getPersistableValues(
+ *   { amount: 10, cardCvv: "123", passport: { number: "AB1", issueDate: "" } },
+ *   { cardCvv: { value: "", sensitive: true }, passport: { nested: true, number: { value: "", persist: false } } }
+ * );
+ * // { amount: 10, passport: { issueDate: "" } }
+ */
+export function getPersistableValues<TValues extends Record<string, any>>(
+  values: TValues,
+  config: FormConfig<TValues>
+): Partial<TValues> {
+  return omitExcluded(values, config) as Partial<TValues>;
+}
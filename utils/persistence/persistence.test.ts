@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { createWebStorageAdapter, getPersistableValues, memoryAdapter } from "./index";
+
+/** Storage поверх Map (в node нет localStorage) */
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe("persistence adapters", () => {
+  it("should store JSON under prefix and list only own keys", async () => {
+    const storage = createStorage();
+    storage.setItem("theme", "dark");
+    const adapter = createWebStorageAdapter(() => storage, { prefix: "draft:" });
+
+    await adapter.set("Order:1", { name: "Apple" });
+
+    expect(storage.getItem("draft:Order:1")).toBe('{"name":"Apple"}');
+    expect(adapter.getSync?.("Order:1")).toEqual({ name: "Apple" });
+    expect(await adapter.list()).toEqual(["Order:1"]);
+
+    await adapter.remove("Order:1");
+    expect(await adapter.get("Order:1")).toBeUndefined();
+  });
+
+  it("should keep values as is in memory", async () => {
+    const file = { name: "scan.pdf", size: 1024 };
+    const adapter = memoryAdapter();
+
+    await adapter.set("Order:1", { file });
+
+    expect((await adapter.get<{ file: unknown }>("Order:1"))?.file).toBe(file);
+    expect(await adapter.list()).toEqual(["Order:1"]);
+  });
+
+  it("should omit persist: false and sensitive fields, including nested and array items", () => {
+    const values = {
+      amount: 10,
+      cardCvv: "123",
+      passport: { number: "AB1", issueDate: "2020-01-01" },
+      cards: [{ last4: "4242", cvv: "123" }],
+    };
+
+    const persistable = getPersistableValues(values, {
+      cardCvv: { value: "", sensitive: true },
+      passport: { nested: true, number: { value: "", persist: false }, issueDate: { value: "" } },
+      cards: { array: true, item: { nested: true, last4: { value: "" }, cvv: { value: "", sensitive: true } } },
+    });
+
+    expect(persistable).toEqual({
+      amount: 10,
+      passport: { issueDate: "2020-01-01" },
+      cards: [{ last4: "4242" }],
+    });
+    expect(values.passport.number).toBe("AB1");
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Адаптеры для Web Storage (localStorage / sessionStorage)
+ *
+ * Значения хранятся как JSON. Хранилище недоступно (SSR, запрет в приватном
+ * режиме, превышение квоты) → ошибка пишется в консоль, форма работает без черновика.
+ */
+
+import type { PersistenceAdapter } from "../../core/types";
+
+export interface WebStorageAdapterOptions {
+  /** Префикс ключей — отделяет черновики от других данных в хранилище */
+  prefix?: string;
+}
+
+/**
+ * Создаёт адаптер поверх Storage
+ *
+ * @param getStorage - доступ к хранилищу (вызывается при каждой операции — безопасно для SSR)
+ * @param options - префикс ключей
+ */
+export function createWebStorageAdapter(
+  getStorage: () => Storage | undefined,
+  { prefix = "" }: WebStorageAdapterOptions = {}
+): PersistenceAdapter {
+  const getSync = <T>(key: string): T | undefined => {
+    try {
+      const stored = getStorage()?.getItem(prefix + key);
+      return stored ? (JSON.parse(stored) as T) : undefined;
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("[Palistor] Failed to load persisted state:", error);
+      return undefined;
+    }
+  };
+
+  return {
+    getSync,
+    get: async (key) => getSync(key),
+    set: async (key, value) => {
+      try {
+        getStorage()?.setItem(prefix + key, JSON.stringify(value));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error("[Palistor] Failed to persist state:", error);
+      }
+    },
+    remove: async (key) => {
+      try {
+        getStorage()?.removeItem(prefix + key);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error("[Palistor] Failed to clear persisted state:", error);
+      }
+    },
+    list: async () => {
+      const storage = getStorage();
+      if (!storage) return [];
+
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null && key.startsWith(prefix)) {
+          keys.push(key.slice(prefix.length));
+        }
+      }
+      return keys;
+    },
+  };
+}
+
+function getWindowStorage(name: "localStorage" | "sessionStorage"): Storage | undefined {
+  if (typeof window === "undefined") return undefined;
+  return window[name];
+}
+
+/**
+ * Черновики в localStorage (адаптер по умолчанию)
+ */
+export function localStorageAdapter(options?: WebStorageAdapterOptions): PersistenceAdapter {
+  return createWebStorageAdapter(() => getWindowStorage("localStorage"), options);
+}
+
+/**
+ * Черновики в sessionStorage — живут до закрытия вкладки
+ */
+export function sessionStorageAdapter(options?: WebStorageAdapterOptions): PersistenceAdapter {
+  return createWebStorageAdapter(() => getWindowStorage("sessionStorage"), options);
+}